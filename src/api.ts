@@ -1,7 +1,17 @@
 import * as crypto from 'crypto';
 import * as request from 'request-promise-native';
 import * as vscode from 'vscode';
-import { VERSION } from './extension';
+import { VERSION } from './version';
+import { TokenBucket } from './limiter';
+
+/**Most requests allowed in a burst */
+const RATE_LIMIT_BURST = 5;
+/**Requests allowed per second once a burst is used up */
+const RATE_LIMIT_PER_SECOND = 2;
+/**Times a request is retried before giving up */
+const MAX_RETRIES = 3;
+/**Delay before the first retry. Doubled on every following retry */
+const RETRY_BASE_DELAY_MS = 500;
 
 /**Programming language used for project */
 export enum Language {
@@ -16,7 +26,7 @@ enum Method {
     POST = 'POST',
 }
 
-enum AlgorithmStatus {
+export enum AlgorithmStatus {
     DeployError = 1,
     InQueue = 2,
     Running = 3,
@@ -31,17 +41,38 @@ enum AlgorithmStatus {
     History = 12
 }
 
-enum BrokerageEnvironment {
+export enum BrokerageEnvironment {
     Live = 'live',
     Paper = 'paper'
 }
 
-enum CompileState {
+export enum CompileState {
     InQueue = 0,
     BuildSuccess = 1,
     BuildError = 2
 }
 
+export enum OrderStatus {
+    New = 0,
+    Submitted = 1,
+    PartiallyFilled = 2,
+    Filled = 3,
+    Canceled = 5,
+    None = 6,
+    Invalid = 7,
+    CancelPending = 8
+}
+
+export enum OrderType {
+    Market = 0,
+    Limit = 1,
+    StopMarket = 2,
+    StopLimit = 3,
+    MarketOnOpen = 4,
+    MarketOnClose = 5,
+    OptionExercise = 6
+}
+
 enum Resolution {
     Tick = 1,
     Second = 2,
@@ -61,7 +92,18 @@ enum SecurityType {
     Crypto
 }
 
-enum TradeDirection {
+export enum SeriesType {
+    Line = 0,
+    Scatter = 1,
+    Candle = 2,
+    Bar = 3,
+    Flag = 4,
+    StackedArea = 5,
+    Pie = 6,
+    Treemap = 7
+}
+
+export enum TradeDirection {
     Long = 0,
     Short = 1,
 }
@@ -72,7 +114,7 @@ type RuntimeStatisticsKey = 'Unrealized' |
     'Return' |
     'Equity';
 
-type StatisticsKey = 'Total Trades' |
+export type StatisticsKey = 'Total Trades' |
     'Average Win' |
     'Average Loss' |
     'Compounding Annual Return' |
@@ -120,6 +162,22 @@ export interface AlphaRuntimeStatistics {
     MeanPopulationEstimatedInsightValue: number;
 }
 
+export interface Chart {
+    Name: string;
+    ChartType?: number;
+    Series: SeriesIndexer;
+}
+
+export interface ChartIndexer {
+    [key: string]: Chart;
+}
+
+/**Point of a chart series. `x` is a UNIX timestamp in seconds */
+export interface ChartPoint {
+    x: number;
+    y: number;
+}
+
 export interface BaseLiveAlgorithmSettings {
     id: string;
     user: string;
@@ -164,7 +222,7 @@ export interface MeanPopulationScore {
 }
 
 export interface Order {
-    Type: number;
+    Type: OrderType;
     Id: number;
     ContingentId: number;
     BrokerId: string[];
@@ -177,7 +235,7 @@ export interface Order {
     LastUpdateTime?: Date;
     CanceledTime?: Date;
     Quantity: number;
-    Status: number;
+    Status: OrderStatus;
     TimeInForce: TimeInForce;
     Tag: string;
     Properties: Properties;
@@ -238,6 +296,20 @@ export interface RollingWindow {
     [key: string]: AlgorithmPerformance;
 }
 
+export interface Series {
+    Name: string;
+    Unit: string;
+    Index: number;
+    SeriesType: SeriesType;
+    Values: ChartPoint[];
+    Color?: string;
+    ScatterMarkerSymbol?: string;
+}
+
+export interface SeriesIndexer {
+    [key: string]: Series;
+}
+
 export interface ServerStatistics {
     [key: string]: string;
 }
@@ -322,6 +394,11 @@ export interface Backtest extends FailureResponse {
     created: Date;
 }
 
+/**Values of the algorithm's parameters, keyed by parameter name. Read by the algorithm with `GetParameter` */
+export interface BacktestParameters {
+    [name: string]: string;
+}
+
 export interface BacktestList extends FailureResponse {
     backtests: Backtest[];
 }
@@ -335,13 +412,35 @@ export interface FailureResponse {
     errors: string[];
 }
 
+/**
+ * Thrown by `LeanApi` when a request fails, either because it never got a response,
+ * the API answered with an HTTP error, or the API reported it was unsuccessful
+ */
+export class LeanApiError extends Error {
+    /**
+     * @param endpoint Request method and API endpoint, e.g. `GET projects/read`
+     * @param status HTTP status code. Undefined if there was no response
+     * @param errors Errors reported by the API in `FailureResponse.errors`, or the reason there was no response
+     */
+    constructor(public endpoint: string, public status: number | undefined, public errors: string[]) {
+        super(`QuantConnect API request '${endpoint}' failed${status ? ` with HTTP ${status}` : ''}: ${errors.join(', ') || 'unknown error'}`);
+        this.name = 'LeanApiError';
+    }
+
+    /**
+     * Whether the API reported that the requested file doesn't exist. The API answers with HTTP 200 for this,
+     * just like for authentication and rate limit failures, so only the error message tells them apart
+     */
+    public get isFileNotFound(): boolean {
+        return this.status === 200 && this.errors.some(error => /^File .*not found/i.test(error));
+    }
+}
+
 export interface Result {
     IsFrameworkAlgorithm: boolean;
     AlphaRuntimeStatistics?: AlphaRuntimeStatistics;
-    /**As per QuantConnect's TOS, we might have to omit the Charts results.
-     * TODO: ping jared and ask if this is okay
-     */
-    Charts: undefined;
+    /**Charts plotted by the algorithm, keyed by chart name (e.g. `Strategy Equity`, `Drawdown`) */
+    Charts: ChartIndexer;
     Orders: Orders;
     ProfitLoss: ProfitLoss;
     Statistics: Statistics;
@@ -404,6 +503,23 @@ export interface ProjectFile extends FailureResponse {
     modified: Date;
 }
 
+/**A node of the user's organization that algorithms run on */
+export interface ProjectNode {
+    id: string;
+    name: string;
+    sku: string;
+    /**Whether the node is running something right now */
+    busy: boolean;
+}
+
+export interface ProjectNodesResponse extends FailureResponse {
+    nodes: {
+        backtest: ProjectNode[];
+        research: ProjectNode[];
+        live: ProjectNode[];
+    };
+}
+
 export interface ProjectResponse extends FailureResponse {
     projects: Project[];
 }
@@ -424,24 +540,33 @@ export class LeanApi {
     /**Base API url; Configurable to point at another API via workspace `settings.json` file */
     baseUrl: string;
 
-    constructor(apiKey?: string, userId?: string) {
+    /**Spaces out requests so that we stay within the API rate limits */
+    private limiter = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND);
+
+    constructor(apiKey?: string, userId?: string, baseUrl?: string) {
         this.apiKey = apiKey;
         this.userId = userId;
+        this.baseUrl = LeanApi.getBaseUrl(baseUrl);
+    }
 
-        let baseUrl = vscode.workspace.getConfiguration('quantconnect').get<string>('cloudApiUrl');
-
-        if (this.apiKey === undefined) {
-            vscode.window.showErrorMessage('Lean API instance has been initialized with no API key');
-        }
-        if (this.userId === undefined) {
-            vscode.window.showErrorMessage('Lean API instance has been initialized with no user ID');
+    /**
+     * Resolve the API url to use
+     *
+     * @param baseUrl API url of the profile, if it has one
+     * @returns The given url, the `quantconnect.cloudApiUrl` setting or the QuantConnect API, in that order
+     */
+    public static getBaseUrl(baseUrl?: string): string {
+        if (baseUrl) {
+            return baseUrl;
         }
+
+        let configUrl = vscode.workspace.getConfiguration('quantconnect').get<string>('cloudApiUrl');
+
         // Set a default API in case we don't find any value in the workspace config
-        if (baseUrl === undefined) {
-            this.baseUrl = 'https://www.quantconnect.com/api/v2/';
-            return;
+        if (configUrl === undefined) {
+            return 'https://www.quantconnect.com/api/v2/';
         }
-        this.baseUrl = baseUrl;
+        return configUrl;
     }
 
     /**
@@ -449,12 +574,16 @@ export class LeanApi {
      * @returns Promise containing boolean indicating whether authentication was successful
      */
     public async authenticated(): Promise<boolean> {
-        const response = await this.request<FailureResponse>('authenticate', Method.GET);
-
-        if (response.success) {
+        try {
+            await this.request<FailureResponse>('authenticate', Method.GET);
             return true;
         }
-        return false;
+        catch (err) {
+            if (err instanceof LeanApiError && err.status !== undefined && err.status < 500) {
+                return false;
+            }
+            throw err;
+        }
     }
     
     /**
@@ -502,6 +631,22 @@ export class LeanApi {
         return this.request<ProjectResponse>('projects/read', Method.GET);
     }
 
+    /**
+     * API Endpoint `GET /api/v2/projects/nodes/read`
+     * 
+     * List the nodes the project can run backtests, research and live algorithms on
+     * 
+     * @param projectId Id of the project
+     * @returns Object satisfying `ProjectNodesResponse`
+     */
+    public async readProjectNodes(projectId: number): Promise<ProjectNodesResponse> {
+        return this.request<ProjectNodesResponse>('projects/nodes/read', Method.GET, {
+            qs: {
+                projectId: projectId
+            }
+        });
+    }
+
     /**
      * API Endpoint `POST /api/v2/files/create`
      * 
@@ -534,7 +679,7 @@ export class LeanApi {
      * 
      * @returns Object satisfying `FailureResponse` indicating success
      */
-    public async updateProjectFileName(projectId: string, oldFileName: string, newFileName: string): Promise<FailureResponse> {
+    public async updateProjectFileName(projectId: number, oldFileName: string, newFileName: string): Promise<FailureResponse> {
         return this.request<FailureResponse>('files/update', Method.POST, {
             form: {
                 projectId: projectId,
@@ -676,15 +821,17 @@ export class LeanApi {
      * @param projectId Id for the project to backtest
      * @param compileId Compile id for the project
      * @param backtestName Name for the new backtest
+     * @param parameters Values of the algorithm's parameters. The project's defaults are used when omitted
      * 
      * @returns Object satsifying `Backtest`
      */
-    public async createBacktest(projectId: number, compileId: string, backtestName: string): Promise<Backtest> {
+    public async createBacktest(projectId: number, compileId: string, backtestName: string, parameters?: BacktestParameters): Promise<Backtest> {
         return this.request<Backtest>('backtests/create', Method.POST, {
             form: {
                 projectId: projectId,
                 compileId: compileId,
-                backtestName: backtestName
+                backtestName: backtestName,
+                parameters: parameters
             }
         });
     }
@@ -932,21 +1079,71 @@ export class LeanApi {
     }
 
     /**
-     * Send out HTTP request to specified endpoint with the given method and options
+     * Send out HTTP request to specified endpoint with the given method and options.
+     *
+     * Requests go through the rate limiter. GET requests are retried with exponential backoff
+     * when there's no response or the server fails, and any request is retried when the API
+     * asks us to slow down with a 429, waiting for `Retry-After` if it's given.
+     *
      * @param endpoint API endpoint/resource
      * @param method GET or POST request method
      * @param options User defined options. POST data will be sent through here
-     * 
-     * @returns Type T - JSON template for results 
+     *
+     * @returns Type T - JSON template for results
+     * @throws LeanApiError if the request failed or the API reported it was unsuccessful
      */
-    private async request<T>(endpoint: string, method: Method, options?: request.RequestPromiseOptions): Promise<T> {
-        if (!options) {
-            options = {};
+    private async request<T extends FailureResponse>(endpoint: string, method: Method, options?: request.RequestPromiseOptions): Promise<T> {
+        const name = `${method} ${endpoint}`;
+
+        if (!this.apiKey || !this.userId) {
+            throw new LeanApiError(name, undefined, ['You are not signed in to QuantConnect. Run "QuantConnect: Sign in" and try again']);
         }
 
-        if (!options.headers) {
-            options.headers = {};
+        for (let attempt = 0; ; attempt++) {
+            let response: T;
+
+            await this.limiter.take();
+            try {
+                response = await this.send<T>(endpoint, method, options);
+            }
+            catch (err) {
+                let status: number | undefined = err.statusCode;
+                let body = err.error;
+                let errors: string[] = body && Array.isArray(body.errors) ? body.errors : [err.cause ? String(err.cause.message) : String(err.message)];
+                let retryable = status === 429 || (method === Method.GET && (status === undefined || status >= 500));
+
+                if (!retryable || attempt >= MAX_RETRIES) {
+                    throw new LeanApiError(name, status, errors);
+                }
+
+                let delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+                let retryAfter = status === 429 && err.response ? Number(err.response.headers['retry-after']) : NaN;
+
+                if (!isNaN(retryAfter)) {
+                    delay = Math.max(delay, retryAfter * 1000);
+                }
+                if (status === 429) {
+                    // Hold back every other request too, not just this one
+                    this.limiter.pause(delay);
+                }
+                await new Promise(resolve => setTimeout(resolve, delay));
+                continue;
+            }
+
+            if (!response || !response.success) {
+                throw new LeanApiError(name, 200, response && Array.isArray(response.errors) ? response.errors : []);
+            }
+            return response;
         }
+    }
+
+    /**
+     * Send a single signed HTTP request
+     */
+    private async send<T>(endpoint: string, method: Method, options?: request.RequestPromiseOptions): Promise<T> {
+        // Copy the options so that a retry doesn't reuse the headers of a previous attempt
+        options = Object.assign({}, options);
+        options.headers = Object.assign({}, options.headers);
 
         const authHashTimestamp = this.createHash();
         // Base64 encode userID:authHash for use in Authorization header
@@ -963,14 +1160,10 @@ export class LeanApi {
 
         switch (method) {
             case Method.GET:
-            return request.get(this.baseUrl + endpoint, options).catch(err => {
-                vscode.window.showErrorMessage(`Error encountered while querying QuantConnect API at endpoint 'GET ${endpoint}': ${err}`);
-            });
+            return request.get(this.baseUrl + endpoint, options);
 
             case Method.POST:
-            return request.post(this.baseUrl + endpoint, options).catch(err => {
-                vscode.window.showErrorMessage(`Error encountered while querying QuantConnect API at endpoint 'POST ${endpoint}': ${err}`);
-            });
+            return request.post(this.baseUrl + endpoint, options);
         }
     }
 
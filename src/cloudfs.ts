@@ -0,0 +1,341 @@
+import * as vscode from 'vscode';
+import { LeanApi, LeanApiError, ProjectFile } from './api';
+import { CredentialManager, DEFAULT_PROFILE } from './credentials';
+import { ProjectNode } from './explorer';
+
+/**URI scheme of cloud project files, e.g. `qc://1234/models/alpha.py`, or `qc://research@1234/models/alpha.py` to pin the profile */
+export const CLOUD_SCHEME = 'qc';
+
+/**How long a project's file list is reused for `stat` and `readDirectory` calls */
+const FILE_LIST_TTL_MS = 5000;
+
+/**Files of a cloud project as of the last time we listed them */
+interface CachedFiles {
+    files: ProjectFile[];
+    fetched: number;
+}
+
+/**A cloud project as addressed by the authority of a URI */
+interface CloudProject {
+    /**Authority of the URI, `<projectId>` or `<profile>@<projectId>`. Keys the state we keep for the project */
+    key: string;
+    projectId: number;
+    /**Lean API instance of the profile the project belongs to */
+    api: LeanApi;
+}
+
+/**
+ * Get the URI of a file of a cloud project, or of the project's root directory if no file name is given
+ *
+ * @param profileName Credential profile the project belongs to
+ */
+export function toCloudUri(profileName: string, projectId: number, fileName: string = ''): vscode.Uri {
+    return vscode.Uri.parse(`${CLOUD_SCHEME}://${projectId}/`).with({
+        authority: `${encodeURIComponent(profileName)}@${projectId}`,
+        path: `/${fileName}`
+    });
+}
+
+/**
+ * Exposes cloud projects as a file system so that their files can be opened, edited, deleted and renamed
+ * without downloading the project. The authority of a URI is the project ID, optionally preceded by a profile as `<profile>@<projectId>`,
+ * and its path is the file name.
+ *
+ * The cloud has no directories of its own: directories are made up from slash-separated file names.
+ * Empty directories created by the user are only remembered until the window is closed.
+ * Files are read and written through the API of the profile in the URI, so switching accounts doesn't affect open files.
+ * URIs without a profile go through the active profile.
+ */
+export class CloudFileSystemProvider implements vscode.FileSystemProvider {
+    private changeEmitter = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private cache = new Map<string, CachedFiles>();
+    /**Empty directories created by the user, as `<profile>@<projectId>/<path>` */
+    private directories = new Set<string>();
+
+    public readonly onDidChangeFile = this.changeEmitter.event;
+
+    constructor(private credManager: CredentialManager) {}
+
+    public static register(context: vscode.ExtensionContext, credManager: CredentialManager) {
+        let provider = new CloudFileSystemProvider(credManager);
+
+        context.subscriptions.push(vscode.workspace.registerFileSystemProvider(CLOUD_SCHEME, provider, { isCaseSensitive: true }));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.openCloudProject', (node?: ProjectNode) => {
+            CloudFileSystemProvider.openProject(credManager, node).then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        }));
+    }
+
+    /**
+     * Entry point of the `extension.openCloudProject` command.
+     * Adds a cloud project to the workspace as a `qc://` folder. Asks for the project when not run from the explorer
+     */
+    public static async openProject(credManager: CredentialManager, node?: ProjectNode) {
+        let project = node ? node.project : undefined;
+
+        if (!project) {
+            let response = await credManager.api.listProjects();
+            let selection = await vscode.window.showQuickPick(response.projects.map(candidate => ({
+                label: candidate.name,
+                description: candidate.language,
+                project: candidate
+            })), {
+                ignoreFocusOut: true,
+                placeHolder: 'Select the project to open without downloading'
+            });
+
+            if (!selection) {
+                return;
+            }
+            project = selection.project;
+        }
+
+        let uri = toCloudUri(credManager.activeProfile || DEFAULT_PROFILE, project.projectId);
+        let folders = vscode.workspace.workspaceFolders || [];
+
+        if (folders.some(folder => folder.uri.toString() === uri.toString())) {
+            vscode.window.showInformationMessage(`${project.name} is already open`);
+            return;
+        }
+        vscode.workspace.updateWorkspaceFolders(folders.length, 0, { uri: uri, name: `${project.name} (cloud)` });
+    }
+
+    /**
+     * Changes are only made through this provider, and we fire events for them ourselves
+     */
+    public watch(): vscode.Disposable {
+        return new vscode.Disposable(() => {});
+    }
+
+    public async stat(uri: vscode.Uri): Promise<vscode.FileStat> {
+        let { project, fileName } = this.parse(uri);
+        let files = await this.getFiles(project);
+        let file = files.find(candidate => candidate.name === fileName);
+
+        if (file) {
+            let modified = new Date(file.modified).getTime();
+            return { type: vscode.FileType.File, ctime: modified, mtime: modified, size: Buffer.byteLength(file.content) };
+        }
+        if (this.isDirectory(project, fileName, files)) {
+            return { type: vscode.FileType.Directory, ctime: 0, mtime: 0, size: 0 };
+        }
+        throw vscode.FileSystemError.FileNotFound(uri);
+    }
+
+    public async readDirectory(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
+        let { project, fileName } = this.parse(uri);
+        let files = await this.getFiles(project);
+
+        if (!this.isDirectory(project, fileName, files)) {
+            throw vscode.FileSystemError.FileNotADirectory(uri);
+        }
+
+        let prefix = fileName ? `${fileName}/` : '';
+        let entries = new Map<string, vscode.FileType>();
+        let names = files.map(file => file.name).concat(this.getCreatedDirectories(project).map(directory => `${directory}/`));
+
+        for (let name of names) {
+            if (!name.startsWith(prefix)) {
+                continue;
+            }
+
+            let rest = name.substring(prefix.length);
+            let separator = rest.indexOf('/');
+
+            if (separator === -1) {
+                entries.set(rest, vscode.FileType.File);
+            }
+            else if (separator > 0) {
+                entries.set(rest.substring(0, separator), vscode.FileType.Directory);
+            }
+        }
+        return Array.from(entries.entries());
+    }
+
+    public async readFile(uri: vscode.Uri): Promise<Uint8Array> {
+        let { project, fileName } = this.parse(uri);
+        let response;
+
+        try {
+            response = await project.api.readProjectFile(project.projectId, fileName);
+        }
+        catch (err) {
+            if (err instanceof LeanApiError && err.isFileNotFound) {
+                throw vscode.FileSystemError.FileNotFound(uri);
+            }
+            throw err;
+        }
+
+        let file = response.files.find(candidate => candidate.name === fileName);
+        if (!file) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return Buffer.from(file.content);
+    }
+
+    public async writeFile(uri: vscode.Uri, content: Uint8Array, options: { create: boolean, overwrite: boolean }): Promise<void> {
+        let { project, fileName } = this.parse(uri);
+        let files = await this.getFiles(project);
+        let exists = files.some(file => file.name === fileName);
+        let text = Buffer.from(content).toString();
+
+        if (this.isDirectory(project, fileName, files)) {
+            throw vscode.FileSystemError.FileIsADirectory(uri);
+        }
+
+        if (exists) {
+            if (!options.overwrite) {
+                throw vscode.FileSystemError.FileExists(uri);
+            }
+            await project.api.updateProjectFileContent(project.projectId, fileName, text);
+            this.invalidate(project, { type: vscode.FileChangeType.Changed, uri: uri });
+            return;
+        }
+
+        if (!options.create) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        await project.api.addProjectFile(project.projectId, fileName, text);
+        this.invalidate(project, { type: vscode.FileChangeType.Created, uri: uri });
+    }
+
+    public async createDirectory(uri: vscode.Uri): Promise<void> {
+        let { project, fileName } = this.parse(uri);
+
+        if (this.isDirectory(project, fileName, await this.getFiles(project))) {
+            throw vscode.FileSystemError.FileExists(uri);
+        }
+        this.directories.add(`${project.key}/${fileName}`);
+        this.changeEmitter.fire([{ type: vscode.FileChangeType.Created, uri: uri }]);
+    }
+
+    public async delete(uri: vscode.Uri, options: { recursive: boolean }): Promise<void> {
+        let { project, fileName } = this.parse(uri);
+        let files = await this.getFiles(project);
+
+        if (files.some(file => file.name === fileName)) {
+            await project.api.deleteProjectFile(project.projectId, fileName);
+            this.invalidate(project, { type: vscode.FileChangeType.Deleted, uri: uri });
+            return;
+        }
+
+        if (!fileName || !this.isDirectory(project, fileName, files)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        let contained = files.filter(file => file.name.startsWith(`${fileName}/`));
+        if (contained.length > 0 && !options.recursive) {
+            throw vscode.FileSystemError.NoPermissions(`${fileName} is not empty`);
+        }
+
+        for (let file of contained) {
+            await project.api.deleteProjectFile(project.projectId, file.name);
+        }
+        this.forgetDirectories(project, fileName);
+        this.invalidate(project, { type: vscode.FileChangeType.Deleted, uri: uri });
+    }
+
+    public async rename(oldUri: vscode.Uri, newUri: vscode.Uri, options: { overwrite: boolean }): Promise<void> {
+        let source = this.parse(oldUri);
+        let target = this.parse(newUri);
+
+        if (source.project.key !== target.project.key) {
+            throw vscode.FileSystemError.NoPermissions('Files can only be moved within a project');
+        }
+
+        let project = source.project;
+        let files = await this.getFiles(project);
+
+        if (files.some(file => file.name === target.fileName) || this.isDirectory(project, target.fileName, files)) {
+            if (!options.overwrite) {
+                throw vscode.FileSystemError.FileExists(newUri);
+            }
+            await this.delete(newUri, { recursive: true });
+            files = await this.getFiles(project);
+        }
+
+        if (files.some(file => file.name === source.fileName)) {
+            await project.api.updateProjectFileName(project.projectId, source.fileName, target.fileName);
+        }
+        else if (source.fileName && this.isDirectory(project, source.fileName, files)) {
+            for (let file of files.filter(candidate => candidate.name.startsWith(`${source.fileName}/`))) {
+                await project.api.updateProjectFileName(project.projectId, file.name, target.fileName + file.name.substring(source.fileName.length));
+            }
+            this.forgetDirectories(project, source.fileName);
+        }
+        else {
+            throw vscode.FileSystemError.FileNotFound(oldUri);
+        }
+
+        this.invalidate(project,
+            { type: vscode.FileChangeType.Deleted, uri: oldUri },
+            { type: vscode.FileChangeType.Created, uri: newUri }
+        );
+    }
+
+    /**
+     * Split a URI into the project it addresses and the file name, without leading or trailing slashes
+     */
+    private parse(uri: vscode.Uri): { project: CloudProject, fileName: string } {
+        let separator = uri.authority.lastIndexOf('@');
+        let projectId = Number(uri.authority.substring(separator + 1));
+
+        if (separator === 0 || !uri.authority.substring(separator + 1) || isNaN(projectId)) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+
+        let profileName = separator > 0 ? decodeURIComponent(uri.authority.substring(0, separator)) : this.credManager.activeProfile;
+        return {
+            project: { key: uri.authority, projectId: projectId, api: this.credManager.getApi(profileName) },
+            fileName: uri.path.replace(/^\/+|\/+$/g, '')
+        };
+    }
+
+    /**
+     * List the files of a project, reusing a recent listing
+     */
+    private async getFiles(project: CloudProject): Promise<ProjectFile[]> {
+        let cached = this.cache.get(project.key);
+
+        if (cached && Date.now() - cached.fetched < FILE_LIST_TTL_MS) {
+            return cached.files;
+        }
+
+        let response = await project.api.readProjectFiles(project.projectId);
+        this.cache.set(project.key, { files: response.files, fetched: Date.now() });
+        return response.files;
+    }
+
+    /**
+     * A directory is the project root, the prefix of a file name, or an empty directory created by the user
+     */
+    private isDirectory(project: CloudProject, fileName: string, files: ProjectFile[]): boolean {
+        return !fileName
+            || files.some(file => file.name.startsWith(`${fileName}/`))
+            || this.getCreatedDirectories(project).some(directory => directory === fileName || directory.startsWith(`${fileName}/`));
+    }
+
+    private getCreatedDirectories(project: CloudProject): string[] {
+        let prefix = `${project.key}/`;
+
+        return Array.from(this.directories).filter(key => key.startsWith(prefix)).map(key => key.substring(prefix.length));
+    }
+
+    private forgetDirectories(project: CloudProject, fileName: string) {
+        for (let directory of this.getCreatedDirectories(project)) {
+            if (directory === fileName || directory.startsWith(`${fileName}/`)) {
+                this.directories.delete(`${project.key}/${directory}`);
+            }
+        }
+    }
+
+    /**
+     * Drop the cached file list of a project after changing it, and tell VSCode what changed
+     */
+    private invalidate(project: CloudProject, ...events: vscode.FileChangeEvent[]) {
+        this.cache.delete(project.key);
+        this.changeEmitter.fire(events);
+    }
+}
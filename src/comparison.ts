@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import { Backtest, LeanApi } from './api';
+import { QCAlgorithmProject } from './project';
+import { getEquityCurve } from './results';
+import { DisplayValue, escapeHtml, formatValue, renderDocument, renderLineChart, StatisticsOf } from './webview';
+
+/**Statistics where a decrease is an improvement */
+const LOWER_IS_BETTER = [
+    'Drawdown',
+    'Loss Rate',
+    'Annual Standard Deviation',
+    'Annual Variance',
+    'Tracking Error',
+    'Total Fees',
+    'LossRate',
+    'AnnualStandardDeviation',
+    'AnnualVariance',
+    'TrackingError',
+    'TotalFees',
+    'NumberOfLosingTrades',
+    'MaxConsecutiveLosingTrades',
+    'MaximumClosedTradeDrawdown',
+    'MaximumIntraTradeDrawdown',
+    'MaximumEndTradeDrawdown',
+    'ProfitLossStandardDeviation',
+    'ProfitLossDownsideDeviation',
+];
+
+/**
+ * Parse a statistic returned by the API into a number.
+ * Handles formatted values such as `12.5%`, `$1,234.56` and plain numbers
+ *
+ * @returns The numeric value, or undefined if the statistic isn't numeric
+ */
+export function parseStatistic(value: DisplayValue): number | undefined {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value !== 'string') {
+        return;
+    }
+    let parsed = parseFloat(value.replace(/[$,%\s]/g, ''));
+
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Webview comparing the statistics and equity curves of several backtests.
+ * The first backtest is the baseline that the others are diffed against
+ */
+export class BacktestComparisonPanel {
+    private panel: vscode.WebviewPanel;
+
+    private constructor(private backtests: Backtest[], private projectName: string) {
+        this.panel = vscode.window.createWebviewPanel(
+            'quantconnect.backtestComparison',
+            `Compare: ${projectName}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: false }
+        );
+        this.render();
+    }
+
+    /**
+     * Read the full results of the given backtests and open a comparison of them
+     *
+     * @param api API instance of the project
+     * @param projectId Project the backtests belong to
+     * @param projectName Name of the project
+     * @param backtestIds Backtests to compare. The first one is used as the baseline
+     */
+    public static async show(api: LeanApi, projectId: number, projectName: string, backtestIds: string[]) {
+        if (backtestIds.length < 2) {
+            vscode.window.showErrorMessage('Select at least two backtests to compare');
+            return;
+        }
+
+        let backtests: Backtest[] = [];
+        for (let backtestId of backtestIds) {
+            backtests.push(await api.readBacktest(projectId, backtestId));
+        }
+
+        return new BacktestComparisonPanel(backtests, projectName);
+    }
+
+    /**
+     * Entry point of the `extension.compareBacktests` command.
+     * Lets the user pick the backtests of the currently open project to compare
+     */
+    public static compareForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to compare its backtests');
+            return;
+        }
+
+        let openProject = project;
+        openProject.api.listBacktests(openProject.projectId).then(response => {
+            let items = response.backtests
+                .filter(backtest => backtest.completed)
+                .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
+                .map(backtest => ({ label: backtest.name, description: formatValue(new Date(backtest.created)), backtestId: backtest.backtestId }));
+
+            return vscode.window.showQuickPick(items, {
+                canPickMany: true,
+                ignoreFocusOut: true,
+                placeHolder: 'Select the backtests to compare'
+            });
+        })
+        .then(selection => {
+            if (!selection || selection.length === 0) {
+                return;
+            }
+            return BacktestComparisonPanel.pickBaseline(selection);
+        })
+        .then(selection => {
+            if (!selection) {
+                return;
+            }
+            return BacktestComparisonPanel.show(openProject.api, openProject.projectId, openProject.projectName, selection.map(item => item.backtestId));
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Ask which of the selected backtests the others are compared against.
+     * A quick pick with `canPickMany` returns items in list order rather than in the order they were picked
+     *
+     * @returns The backtests with the baseline first, or undefined if the user cancelled
+     */
+    private static async pickBaseline<T extends vscode.QuickPickItem>(items: T[]): Promise<T[] | undefined> {
+        if (items.length < 2) {
+            return items;
+        }
+
+        let baseline = await vscode.window.showQuickPick(items, {
+            ignoreFocusOut: true,
+            placeHolder: 'Select the baseline the other backtests are compared against'
+        });
+
+        if (!baseline) {
+            return;
+        }
+        return [baseline, ...items.filter(item => item !== baseline)];
+    }
+
+    private render() {
+        let backtests = this.backtests;
+        let body: string[] = [];
+
+        body.push(renderLineChart('Equity', backtests.map(backtest => ({ name: backtest.name, points: getEquityCurve(backtest.result) }))));
+        body.push(this.renderSection('Statistics', backtests.map(backtest => backtest.result ? backtest.result.Statistics : undefined)));
+        body.push(this.renderSection('Portfolio Statistics', backtests.map(backtest => {
+            return backtest.result && backtest.result.TotalPerformance ? backtest.result.TotalPerformance.PortfolioStatistics : undefined;
+        })));
+        body.push(this.renderSection('Trade Statistics', backtests.map(backtest => {
+            return backtest.result && backtest.result.TotalPerformance ? backtest.result.TotalPerformance.TradeStatistics : undefined;
+        })));
+
+        this.panel.webview.html = renderDocument(`Comparing ${backtests.length} backtests of ${this.projectName}`, body.join('\n'));
+    }
+
+    /**
+     * Render a table with a row per statistic and a column per backtest.
+     * Every column after the baseline shows its delta, highlighted by whether it's an improvement
+     */
+    private renderSection<T extends StatisticsOf<T>>(title: string, sections: (T | undefined)[]): string {
+        let keys: string[] = [];
+        for (let section of sections) {
+            for (let key of Object.keys(section || {})) {
+                if (keys.indexOf(key) === -1) {
+                    keys.push(key);
+                }
+            }
+        }
+
+        if (keys.length === 0) {
+            return '';
+        }
+
+        let headers = ['', ...this.backtests.map(backtest => escapeHtml(backtest.name))];
+        let rows = keys.map(key => {
+            let baseline = sections[0] ? parseStatistic(sections[0]![<keyof T> key]) : undefined;
+            let cells = sections.map((section, i) => {
+                let value = section ? section[<keyof T> key] : undefined;
+                let cell = escapeHtml(formatValue(value));
+                let current = parseStatistic(value);
+
+                if (i === 0 || baseline === undefined || current === undefined || current === baseline) {
+                    return `<td>${cell}</td>`;
+                }
+
+                let delta = current - baseline;
+                let improved = LOWER_IS_BETTER.indexOf(key) === -1 ? delta > 0 : delta < 0;
+
+                return `<td>${cell} <span class="${improved ? 'positive' : 'negative'}">(${delta > 0 ? '+' : ''}${escapeHtml(formatValue(delta))})</span></td>`;
+            });
+
+            return `<tr><td>${escapeHtml(key)}</td>${cells.join('')}</tr>`;
+        });
+
+        return `<table><caption>${escapeHtml(title)}</caption><thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+    }
+}
\ No newline at end of file
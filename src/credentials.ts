@@ -1,91 +1,346 @@
 import * as vscode from 'vscode';
 import { LeanApi } from './api';
 
+/**Key of the profiles in VSCode's secret storage */
+const SECRET_KEY = 'quantconnect.profiles';
+/**Name given to credentials migrated from older versions of the extension, and to projects created before profiles existed */
+export const DEFAULT_PROFILE = 'default';
+
+/**A QuantConnect account, or an organization the user works under */
+export interface Profile {
+    /**Name the user gave the profile, e.g. "personal" or "production" */
+    name: string;
+    apiKey: string;
+    userId: string;
+    /**API to use for this profile. Falls back to the `quantconnect.cloudApiUrl` setting */
+    cloudApiUrl?: string;
+}
+
+/**Profiles as they're kept in secret storage */
+interface StoredProfiles {
+    /**Profile used by the explorer and by new projects */
+    activeProfile?: string;
+    profiles: Profile[];
+}
+
 /**
- * Manages credential related tasks. 
- * 
- * If no API key or userID is found in the configuration,
- * the `CredentialManager` will prompt the user for their
- * missing information.
- * 
- * Can update configuration once a user supplies
- * a valid API key and userID.
- * 
- * Class variables are public, but should be treated as private.
- * We do this so that we can access the variables from the globalState
- * 
- * Contains an API instance. Use this class to query the QuantConnect API
+ * Manages credential related tasks.
+ *
+ * Credentials are kept as named profiles in VSCode's secret storage, which is backed by the OS keychain.
+ * Values found in the plaintext `quantconnect.apiKey` and `quantconnect.userId` settings
+ * are moved into the "default" profile and removed from the settings.
+ *
+ * If no profiles are stored, the `CredentialManager` will prompt the user to sign in.
+ *
+ * Holds one API instance per profile. Projects keep using the instance of the profile they're bound to,
+ * and signing in to a profile again updates its instance in place. Use this class to query the QuantConnect API
  */
 export class CredentialManager {
-    /**User API key. Obtainable from https://www.quantconnect.com/accounts */
-    public apiKey?: string;
-    /**User ID. Obtainable from https://www.quantconnect.com/accounts */
-    public userId?: string;
-    /**Lean API instance*/
-    public api!: LeanApi;
-
-    constructor() {
-        const workspaceConfig = vscode.workspace.getConfiguration('quantconnect'); 
-
-        this.apiKey = workspaceConfig.get('apiKey');
-        this.userId = workspaceConfig.get('userId');
-
-        if (!this.apiKey || !this.userId) {
-            CredentialManager.promptForApiKey().then(apiKey => {
-                this.apiKey = apiKey;
-                // Updates the config file to include the user's API key
-                workspaceConfig.update('apiKey', apiKey, vscode.ConfigurationTarget.Workspace);
-                workspaceConfig.update('apiKey', apiKey, vscode.ConfigurationTarget.Global);
-            })
-            .then(() => {
-                return CredentialManager.promptForUserId();
-            })
-            .then(userId => {
-                this.userId = userId;
-                // Updates the config file to include the user's ID
-                workspaceConfig.update('userId', userId, vscode.ConfigurationTarget.Workspace);
-                workspaceConfig.update('userId', userId, vscode.ConfigurationTarget.Global);
-            })
-            .then(() => {
-                this.initializeApi();
+    /**Name of the profile used by the explorer and by new projects */
+    public activeProfile?: string;
+    public profiles: Profile[] = [];
+
+    /**Lean API instances keyed by profile name */
+    private apis = new Map<string, LeanApi>();
+    private changeEmitter = new vscode.EventEmitter<void>();
+
+    /**Set while credentials are moved out of the settings, whose updates fire `onDidChangeConfiguration` again */
+    private migrating = false;
+
+    /**Fired when profiles are added, removed or the active profile changes */
+    public readonly onDidChangeProfiles = this.changeEmitter.event;
+
+    constructor(private secrets: vscode.SecretStorage) {}
+
+    /**Lean API instance of the active profile */
+    public get api(): LeanApi {
+        return this.getApi(this.activeProfile);
+    }
+
+    /**
+     * Get the Lean API instance of a profile. Requests made through the instance of an unknown
+     * profile fail until the user signs in to a profile with that name
+     *
+     * @param profileName Profile to get the instance of. Defaults to the active profile
+     */
+    public getApi(profileName: string | undefined = this.activeProfile): LeanApi {
+        let name = profileName || DEFAULT_PROFILE;
+        let api = this.apis.get(name);
+
+        if (!api) {
+            api = new LeanApi();
+            this.apis.set(name, api);
+            this.updateApi(name);
+        }
+        return api;
+    }
+
+    /**
+     * Load the stored profiles, migrating credentials from the settings if needed.
+     * Prompts the user to sign in if no profiles are found
+     */
+    public async initialize() {
+        await this.migrateFromSettings();
+        await this.loadFromSecrets();
+
+        if (this.profiles.length === 0) {
+            await this.signIn();
+        }
+    }
+
+    /**
+     * Pick up profiles stored by another VSCode window
+     */
+    public onSecretsChanged(e: vscode.SecretStorageChangeEvent) {
+        if (e.key === SECRET_KEY) {
+            this.loadFromSecrets().then(undefined, (err: Error) => {
+                console.log(err);
             });
-            
-            // Prevents the API from being initialized twice
+        }
+    }
+
+    /**
+     * Move credentials found in the plaintext settings into the default profile and remove them from every settings file.
+     * A lone API key or user ID is left in the settings until the other one is added, so that it isn't lost
+     */
+    public async migrateFromSettings() {
+        if (this.migrating) {
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('quantconnect');
+        let apiKey = CredentialManager.getSettingValue(config, 'apiKey');
+        let userId = CredentialManager.getSettingValue(config, 'userId');
+
+        if (!apiKey || !userId) {
+            return;
+        }
+
+        this.migrating = true;
+        try {
+            // Users who already have profiles keep the active profile they chose
+            await this.storeProfile({ name: DEFAULT_PROFILE, apiKey: apiKey, userId: userId }, false);
+            vscode.window.showInformationMessage(`Your QuantConnect credentials were moved from settings.json to the "${DEFAULT_PROFILE}" profile in secure storage`);
+
+            for (let target of [vscode.ConfigurationTarget.Global, vscode.ConfigurationTarget.Workspace, vscode.ConfigurationTarget.WorkspaceFolder]) {
+                for (let setting of ['apiKey', 'userId']) {
+                    // Updating a target that has no value, or no workspace folder, fails and there's nothing to remove there anyway
+                    await Promise.resolve(config.update(setting, undefined, target)).catch(() => undefined);
+                }
+            }
+        }
+        finally {
+            this.migrating = false;
+        }
+    }
+
+    /**
+     * Entry point of the `extension.signIn` command.
+     * Asks for a profile name, API key, user ID and API url, checks them against the API and stores them.
+     * The profile becomes the active profile
+     *
+     * @returns Whether the user signed in
+     */
+    public async signIn(): Promise<boolean> {
+        let name = await vscode.window.showInputBox({
+            prompt: 'Enter a name for this QuantConnect account, e.g. personal or production',
+            value: this.profiles.length === 0 ? DEFAULT_PROFILE : '',
+            ignoreFocusOut: true
+        });
+        if (!name) {
+            return false;
+        }
+        let apiKey = await CredentialManager.promptForApiKey();
+        if (!apiKey) {
+            return false;
+        }
+        let userId = await CredentialManager.promptForUserId();
+        if (!userId) {
+            return false;
+        }
+        let cloudApiUrl = await vscode.window.showInputBox({
+            prompt: 'Enter the QuantConnect API url of this account. Leave empty to use the `quantconnect.cloudApiUrl` setting',
+            ignoreFocusOut: true
+        });
+        if (cloudApiUrl === undefined) {
+            return false;
+        }
+
+        let profile: Profile = { name: name, apiKey: apiKey, userId: userId, cloudApiUrl: cloudApiUrl || undefined };
+        let authenticated = await new LeanApi(apiKey, userId, profile.cloudApiUrl).authenticated().catch(() => false);
+        if (!authenticated) {
+            vscode.window.showErrorMessage('The API credentials you supplied are not valid');
+            return false;
+        }
+
+        await this.storeProfile(profile);
+        vscode.window.showInformationMessage(`Signed in to QuantConnect as user ${userId} with profile "${name}"`);
+        return true;
+    }
+
+    /**
+     * Entry point of the `extension.signOut` command.
+     * Removes a stored profile. Projects bound to it can't reach the API until the user signs in to it again
+     */
+    public async signOut() {
+        let name = await this.pickProfile('Select the profile to sign out of');
+        if (!name) {
             return;
         }
-        this.initializeApi();
+
+        let stored = await this.readSecrets();
+        stored.profiles = stored.profiles.filter(profile => profile.name !== name);
+        if (stored.activeProfile === name) {
+            stored.activeProfile = stored.profiles.length > 0 ? stored.profiles[0].name : undefined;
+        }
+
+        await this.writeSecrets(stored);
+        vscode.window.showInformationMessage(`Signed out of QuantConnect profile "${name}"`);
     }
 
     /**
-     * Initialize the Lean API instance and check for valid credentials
-     * 
-     * @private
+     * Entry point of the `extension.switchAccount` command.
+     * Makes another profile the active profile, or signs in to a new one
      */
-    private initializeApi() {
-        this.api = new LeanApi(this.apiKey, this.userId);
+    public async switchAccount() {
+        const signInItem = 'Sign in to another account...';
+        let items = [...this.profiles.map(profile => profile.name), signInItem];
+        let selection = await vscode.window.showQuickPick(items, {
+            placeHolder: `Active profile: ${this.activeProfile || 'none'}`,
+            ignoreFocusOut: true
+        });
 
-        this.api.authenticated().then(authenticated => {
-            if (!authenticated) {
-                vscode.window.showErrorMessage('The API credentials you supplied are not valid');
-            } 
+        if (!selection) {
+            return;
+        }
+        if (selection === signInItem) {
+            await this.signIn();
+            return;
+        }
+
+        let stored = await this.readSecrets();
+        stored.activeProfile = selection;
+        await this.writeSecrets(stored);
+    }
+
+    /**
+     * Let the user pick one of the stored profiles
+     *
+     * @returns The profile name, or undefined if there are no profiles or the user cancelled
+     */
+    public async pickProfile(placeHolder: string): Promise<string | undefined> {
+        if (this.profiles.length === 0) {
+            vscode.window.showErrorMessage('You are not signed in to any QuantConnect account. Run "QuantConnect: Sign in" first');
+            return;
+        }
+
+        return vscode.window.showQuickPick(this.profiles.map(profile => profile.name), {
+            placeHolder: placeHolder,
+            ignoreFocusOut: true
         });
     }
 
+    /**
+     * Add a profile, replacing any profile with the same name
+     *
+     * @param activate Whether to make the profile the active profile. A profile stored while there's no active profile always becomes active
+     */
+    private async storeProfile(profile: Profile, activate: boolean = true) {
+        let stored = await this.readSecrets();
+
+        stored.profiles = stored.profiles.filter(existing => existing.name !== profile.name);
+        stored.profiles.push(profile);
+        if (activate || !stored.activeProfile) {
+            stored.activeProfile = profile.name;
+        }
+        await this.writeSecrets(stored);
+    }
+
+    /**
+     * Read the stored profiles. Unreadable secrets are treated as no profiles, so that the user can sign in again
+     */
+    private async readSecrets(): Promise<StoredProfiles> {
+        let stored = await this.secrets.get(SECRET_KEY);
+
+        if (!stored) {
+            return { profiles: [] };
+        }
+
+        try {
+            return JSON.parse(stored);
+        }
+        catch (err) {
+            console.log(err);
+            return { profiles: [] };
+        }
+    }
+
+    private async writeSecrets(stored: StoredProfiles) {
+        await this.secrets.store(SECRET_KEY, JSON.stringify(stored));
+        this.applyProfiles(stored);
+    }
+
+    private async loadFromSecrets() {
+        this.applyProfiles(await this.readSecrets());
+    }
+
+    private applyProfiles(stored: StoredProfiles) {
+        this.profiles = stored.profiles;
+        this.activeProfile = stored.activeProfile;
+        this.updateApis();
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Point every API instance at the current credentials and API url of its profile
+     */
+    public updateApis() {
+        for (let name of Array.from(this.apis.keys())) {
+            this.updateApi(name);
+        }
+    }
+
+    /**
+     * Point the API instance of a profile at the profile's current credentials
+     */
+    private updateApi(name: string) {
+        let api = this.apis.get(name);
+        let profile = this.profiles.find(existing => existing.name === name);
+
+        if (!api) {
+            return;
+        }
+        api.apiKey = profile ? profile.apiKey : undefined;
+        api.userId = profile ? profile.userId : undefined;
+        api.baseUrl = LeanApi.getBaseUrl(profile ? profile.cloudApiUrl : undefined);
+    }
+
+    /**
+     * Get a plaintext setting from any of the settings files it could have been written to
+     */
+    private static getSettingValue(config: vscode.WorkspaceConfiguration, setting: string): string | undefined {
+        let inspection = config.inspect<string>(setting);
+
+        if (!inspection) {
+            return;
+        }
+        return inspection.workspaceFolderValue || inspection.workspaceValue || inspection.globalValue || undefined;
+    }
+
     /**
      * Prompt the user for their API key using a form
      */
     private static async promptForApiKey(): Promise<string | undefined> {
-        // Only run this part if the user hasn't provided the API keys in the configuration
         return vscode.window.showInputBox({
             prompt: 'Enter your QuantConnect API key',
             ignoreFocusOut: true,
             password: true
-		})
-		.then((apiKey: string | undefined) => {
-		    if (apiKey === undefined) {
-                vscode.window.showErrorMessage('In order to use the QuantConnect extension, you must provide an API key. You can provide the API key in the workspace `settings.json` file');
+        })
+        .then((apiKey: string | undefined) => {
+            if (apiKey === undefined) {
+                vscode.window.showErrorMessage('In order to use the QuantConnect extension, you must provide an API key. Run "QuantConnect: Sign in" to provide it later');
             }
-            return apiKey;           
+            return apiKey;
         });
     }
 
@@ -99,7 +354,7 @@ export class CredentialManager {
         })
         .then((userId: string | undefined) => {
             if (userId === undefined) {
-                vscode.window.showErrorMessage('In order to use the QuantConnect extension, you must provide a user ID. You can provide the user ID in the workspace `settings.json` file');
+                vscode.window.showErrorMessage('In order to use the QuantConnect extension, you must provide a user ID. Run "QuantConnect: Sign in" to provide it later');
             }
             return userId;
         });
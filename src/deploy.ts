@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import { BaseLiveAlgorithmSettings, BrokerageEnvironment, CompileState, LiveAlgorithm } from './api';
+import { LiveDashboardPanel } from './live';
+import { QCAlgorithmProject } from './project';
+
+/**Brokerages supported by QuantConnect live trading */
+interface Brokerage {
+    /**Brokerage id expected by the API */
+    id: string;
+    label: string;
+    /**Whether the brokerage can only be used with paper trading */
+    paperOnly?: boolean;
+    /**Whether the brokerage requires a user name and password */
+    requiresLogin: boolean;
+}
+
+const BROKERAGES: Brokerage[] = [
+    { id: 'QuantConnectBrokerage', label: 'QuantConnect Paper Trading', paperOnly: true, requiresLogin: false },
+    { id: 'InteractiveBrokersBrokerage', label: 'Interactive Brokers', requiresLogin: true },
+    { id: 'TradierBrokerage', label: 'Tradier', requiresLogin: true },
+    { id: 'OandaBrokerage', label: 'OANDA', requiresLogin: true },
+    { id: 'FxcmBrokerage', label: 'FXCM', requiresLogin: true },
+    { id: 'GDAXBrokerage', label: 'Coinbase Pro (GDAX)', requiresLogin: true },
+    { id: 'BitfinexBrokerage', label: 'Bitfinex', requiresLogin: true },
+];
+
+const SERVER_TYPES = ['Server512', 'Server1024', 'Server2048'];
+
+/**
+ * Walks the user through deploying the currently open project as a live algorithm.
+ *
+ * Brokerage credentials entered in the wizard only live in memory for the duration of the deployment.
+ * They are sent to the API and never written to `globalState` or the settings.
+ */
+export class LiveDeploymentWizard {
+    /**
+     * Entry point of the `extension.deployLive` command
+     */
+    public static deploy() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to deploy it live');
+            return;
+        }
+
+        let openProject = project;
+        LiveDeploymentWizard.run(openProject).then(live => {
+            if (!live) {
+                return;
+            }
+            vscode.window.showInformationMessage(`${openProject.projectName} deployed live. Deploy ID: ${live.deployId}`);
+            LiveDashboardPanel.show(openProject.api, openProject.projectId, live.deployId, openProject.projectName);
+        }, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Compile the project, ask for the deployment settings and submit the deployment
+     *
+     * @returns The new live algorithm, or undefined if the user cancelled the wizard
+     */
+    private static async run(project: QCAlgorithmProject): Promise<LiveAlgorithm | undefined> {
+        let compile = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Compiling ${project.projectName}`
+        }, async () => {
+            await project.sync();
+            return project.compile();
+        });
+
+        if (compile.state === CompileState.BuildError) {
+            throw new Error(`${project.projectName} failed to compile. See the Problems panel for details`);
+        }
+
+        let brokerageItem = await vscode.window.showQuickPick(BROKERAGES.map(brokerage => ({ label: brokerage.label, brokerage: brokerage })), {
+            placeHolder: 'Select a brokerage',
+            ignoreFocusOut: true
+        });
+        if (!brokerageItem) {
+            return;
+        }
+        let brokerage = brokerageItem.brokerage;
+
+        let environment = BrokerageEnvironment.Paper;
+        if (!brokerage.paperOnly) {
+            let selectedEnvironment = await vscode.window.showQuickPick([BrokerageEnvironment.Paper, BrokerageEnvironment.Live], {
+                placeHolder: 'Select the brokerage environment',
+                ignoreFocusOut: true
+            });
+            if (!selectedEnvironment) {
+                return;
+            }
+            environment = <BrokerageEnvironment> selectedEnvironment;
+        }
+
+        let settings: BaseLiveAlgorithmSettings = {
+            id: brokerage.id,
+            user: '',
+            password: '',
+            environment: environment,
+            account: ''
+        };
+
+        if (brokerage.requiresLogin) {
+            let account = await vscode.window.showInputBox({ prompt: `${brokerage.label} account ID`, ignoreFocusOut: true });
+            if (account === undefined) {
+                return;
+            }
+            let user = await vscode.window.showInputBox({ prompt: `${brokerage.label} user name`, ignoreFocusOut: true });
+            if (user === undefined) {
+                return;
+            }
+            let password = await vscode.window.showInputBox({ prompt: `${brokerage.label} password`, ignoreFocusOut: true, password: true });
+            if (password === undefined) {
+                return;
+            }
+            settings.account = account;
+            settings.user = user;
+            settings.password = password;
+        }
+
+        let serverType = await vscode.window.showQuickPick(SERVER_TYPES, {
+            placeHolder: 'Select the type of server to run the algorithm on',
+            ignoreFocusOut: true
+        });
+        if (!serverType) {
+            return;
+        }
+
+        let summary = [
+            `Project: ${project.projectName}`,
+            `Brokerage: ${brokerage.label}`,
+            `Environment: ${environment}`,
+            `Account: ${settings.account || '-'}`,
+            `User: ${settings.user || '-'}`,
+            `Server: ${serverType}`,
+        ].join('\n');
+
+        let confirmation = await vscode.window.showWarningMessage(
+            `Deploy ${project.projectName} ${environment === BrokerageEnvironment.Live ? 'with REAL money' : 'to paper trading'}?\n\n${summary}`,
+            { modal: true },
+            'Deploy'
+        );
+        if (confirmation !== 'Deploy') {
+            return;
+        }
+
+        return project.api.createLiveAlgorithm(project.projectId, compile.compileId, serverType, settings, '-1');
+    }
+}
\ No newline at end of file
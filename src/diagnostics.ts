@@ -0,0 +1,195 @@
+import * as vscode from 'vscode';
+import { Compile, CompileState } from './api';
+import { QCAlgorithmProject } from './project';
+
+/**A single problem found in the logs of a compile job */
+export interface CompileMessage {
+    /**File name as reported by the compiler. May include a directory prefix from the build server */
+    fileName: string;
+    /**1-based line number */
+    line: number;
+    /**1-based column number */
+    column: number;
+    severity: 'error' | 'warning';
+    /**Compiler error code, e.g. `CS1002`, `FS0039` or `E0602` */
+    code?: string;
+    message: string;
+}
+
+/**C# and F# compiler output: `Main.cs(12,5): error CS1002: ; expected` */
+const DOTNET_PATTERN = /^(.+?)\((\d+),(\d+)(?:,\d+,\d+)?\):\s*(error|warning)\s+([A-Z]+\d+)\s*:\s*(.*)$/;
+/**QuantConnect build server output: `Build Error: File: main.py Line:12 Column:4 - invalid syntax` */
+const BUILD_PATTERN = /^Build (Error|Warning)\s*:\s*File:\s*(.+?)\s+Line:\s*(\d+)\s+Column:\s*(\d+)\s*-\s*(.*)$/i;
+/**Python lint output: `main.py:12:4: E0602 Undefined variable 'foo'` */
+const LINT_PATTERN = /^(.+?\.py):(\d+):(\d+):\s*(?:([A-Z]\d+):?\s*)?(.*)$/;
+/**Python traceback frame: `File "main.py", line 12, in Initialize` */
+const TRACEBACK_FRAME_PATTERN = /^\s*File "(.+?\.py)", line (\d+)/;
+/**Last line of a Python traceback: `NameError: name 'foo' is not defined` */
+const TRACEBACK_ERROR_PATTERN = /^\s*([A-Za-z_]\w*(?:Error|Exception))\s*:\s*(.*)$/;
+
+/**
+ * Parse the `logs` of a compile job into individual problems.
+ * Lines that don't look like compiler, lint or traceback output are ignored.
+ *
+ * @param logs Log lines returned by `LeanApi.readCompile`
+ */
+export function parseCompileLogs(logs: string[]): CompileMessage[] {
+    let messages: CompileMessage[] = [];
+    let lines: string[] = [];
+    // The innermost frame of the traceback we're currently reading
+    let tracebackFrame: { fileName: string, line: number } | undefined;
+
+    for (let log of logs) {
+        lines.push(...log.split(/\r?\n/));
+    }
+
+    for (let line of lines) {
+        let match = DOTNET_PATTERN.exec(line);
+        if (match) {
+            messages.push({
+                fileName: match[1].trim(),
+                line: parseInt(match[2]),
+                column: parseInt(match[3]),
+                severity: match[4] === 'warning' ? 'warning' : 'error',
+                code: match[5],
+                message: match[6].trim()
+            });
+            continue;
+        }
+
+        match = BUILD_PATTERN.exec(line);
+        if (match) {
+            messages.push({
+                fileName: match[2].trim(),
+                line: parseInt(match[3]),
+                column: parseInt(match[4]),
+                severity: match[1].toLowerCase() === 'warning' ? 'warning' : 'error',
+                message: match[5].trim()
+            });
+            continue;
+        }
+
+        match = TRACEBACK_FRAME_PATTERN.exec(line);
+        if (match) {
+            tracebackFrame = { fileName: match[1], line: parseInt(match[2]) };
+            continue;
+        }
+
+        match = TRACEBACK_ERROR_PATTERN.exec(line);
+        if (match && tracebackFrame) {
+            messages.push({
+                fileName: tracebackFrame.fileName,
+                line: tracebackFrame.line,
+                column: 1,
+                severity: 'error',
+                code: match[1],
+                message: match[2].trim()
+            });
+            tracebackFrame = undefined;
+            continue;
+        }
+
+        match = LINT_PATTERN.exec(line);
+        if (match) {
+            let code = match[4];
+            messages.push({
+                fileName: match[1].trim(),
+                line: parseInt(match[2]),
+                column: parseInt(match[3]),
+                // pylint and flake8 codes starting with W or C are not fatal
+                severity: code !== undefined && /^[WC]/.test(code) ? 'warning' : 'error',
+                code: code,
+                message: match[5].trim()
+            });
+        }
+    }
+
+    return messages;
+}
+
+/**
+ * Publishes the problems found in a project's compile jobs to the Problems panel
+ */
+export class CompileDiagnostics {
+    private collection: vscode.DiagnosticCollection;
+    /**Files we published diagnostics for in the last compile of each project, keyed by project path */
+    private published = new Map<string, string[]>();
+
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('quantconnect');
+    }
+
+    /**
+     * Replace the diagnostics of every file in the project with the problems found in the compile job.
+     * A successful build clears the project's diagnostics, including those of files deleted or renamed since the last compile.
+     *
+     * @param project Project that was compiled
+     * @param compile Finished compile job
+     */
+    public publish(project: QCAlgorithmProject, compile: Compile) {
+        let diagnostics = new Map<string, vscode.Diagnostic[]>();
+
+        for (let file of project.files) {
+            diagnostics.set(file.filePath, []);
+        }
+
+        if (compile.state === CompileState.BuildError) {
+            for (let message of parseCompileLogs(compile.logs)) {
+                let file = CompileDiagnostics.findFile(project, message.fileName);
+
+                if (!file) {
+                    continue;
+                }
+
+                let position = new vscode.Position(Math.max(message.line - 1, 0), Math.max(message.column - 1, 0));
+                let diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(position, position.translate(0, 1)),
+                    message.message,
+                    message.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.source = 'QuantConnect';
+                diagnostic.code = message.code;
+
+                diagnostics.get(file)!.push(diagnostic);
+            }
+        }
+
+        for (let filePath of this.published.get(project.projectPath) || []) {
+            if (!diagnostics.has(filePath)) {
+                this.collection.delete(vscode.Uri.file(filePath));
+            }
+        }
+
+        diagnostics.forEach((fileDiagnostics, filePath) => {
+            this.collection.set(vscode.Uri.file(filePath), fileDiagnostics);
+        });
+        this.published.set(project.projectPath, Array.from(diagnostics.keys()));
+    }
+
+    public dispose() {
+        this.collection.dispose();
+    }
+
+    /**
+     * Find the local path of the project file named in a compiler message.
+     * The build server prefixes file names with its own directories, so we match on the end of the path.
+     * When several files match, e.g. `main.py` and `lib/main.py`, the longest name wins
+     *
+     * @returns Local file path, or undefined if the file doesn't belong to the project
+     */
+    private static findFile(project: QCAlgorithmProject, fileName: string): string | undefined {
+        let normalizedName = fileName.replace(/\\/g, '/');
+        let match: string | undefined;
+        let matchLength = 0;
+
+        for (let file of project.files) {
+            let projectFileName = project.getFileName(file.filePath);
+
+            if ((normalizedName === projectFileName || normalizedName.endsWith(`/${projectFileName}`)) && projectFileName.length > matchLength) {
+                match = file.filePath;
+                matchLength = projectFileName.length;
+            }
+        }
+        return match;
+    }
+}
\ No newline at end of file
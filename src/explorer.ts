@@ -0,0 +1,295 @@
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { AlgorithmStatus, Backtest, Language, LiveAlgorithm, Project, ProjectFile } from './api';
+import { toCloudUri } from './cloudfs';
+import { DEFAULT_PROFILE } from './credentials';
+import { CredManager, Projects } from './extension';
+import { BacktestHistoryPanel } from './history';
+import { LiveDashboardPanel } from './live';
+import { QCAlgorithmProject } from './project';
+import { BacktestResultsPanel } from './results';
+
+/**Display names for the languages the cloud supports */
+const LANGUAGE_NAMES: { [key: string]: string } = {
+    [Language.Python]: 'Python',
+    [Language.CSharp]: 'C#',
+    [Language.FSharp]: 'F#',
+};
+
+/**Live algorithm statuses accepted by `LeanApi.listLiveAlgorithms` */
+const LIVE_STATUSES = [AlgorithmStatus.Running, AlgorithmStatus.Stopped, AlgorithmStatus.RuntimeError, AlgorithmStatus.Liquidated];
+
+type FolderKind = 'files' | 'backtests' | 'live';
+
+export class LanguageNode extends vscode.TreeItem {
+    constructor(public language: Language, public projects: Project[]) {
+        super(LANGUAGE_NAMES[language] || language, vscode.TreeItemCollapsibleState.Expanded);
+        this.contextValue = 'language';
+    }
+}
+
+export class ProjectNode extends vscode.TreeItem {
+    constructor(public project: Project) {
+        super(project.name, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = QCAlgorithmProject.getProjectById(project.projectId) ? 'localProject' : 'project';
+        this.description = QCAlgorithmProject.getProjectById(project.projectId) ? 'local' : undefined;
+        this.tooltip = `Project ID: ${project.projectId}\nModified: ${project.modified}`;
+    }
+}
+
+export class FolderNode extends vscode.TreeItem {
+    constructor(public project: Project, public kind: FolderKind) {
+        super(kind === 'files' ? 'Files' : kind === 'backtests' ? 'Backtests' : 'Live Deployments', vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = `${kind}Folder`;
+    }
+}
+
+export class FileNode extends vscode.TreeItem {
+    constructor(public project: Project, public file: ProjectFile) {
+        super(file.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'file';
+        this.tooltip = `Modified: ${file.modified}`;
+        this.command = { command: 'extension.openCloudItem', title: 'Open', arguments: [this] };
+    }
+}
+
+export class BacktestNode extends vscode.TreeItem {
+    constructor(public project: Project, public backtest: Backtest) {
+        super(backtest.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'backtest';
+        this.description = backtest.completed ? undefined : `${Math.floor(backtest.progress * 100)}%`;
+        this.tooltip = `Created: ${backtest.created}${backtest.note ? `\n${backtest.note}` : ''}`;
+        this.command = { command: 'extension.openCloudItem', title: 'Open', arguments: [this] };
+    }
+}
+
+export class LiveNode extends vscode.TreeItem {
+    constructor(public project: Project, public live: LiveAlgorithm) {
+        super(live.deployId, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'live';
+        this.description = `${AlgorithmStatus[live.status]} - ${live.brokerage}`;
+        this.tooltip = `Launched: ${live.launched}${live.stopped ? `\nStopped: ${live.stopped}` : ''}`;
+        this.command = { command: 'extension.openCloudItem', title: 'Open', arguments: [this] };
+    }
+}
+
+export type CloudNode = LanguageNode | ProjectNode | FolderNode | FileNode | BacktestNode | LiveNode;
+
+/**
+ * Lists the projects of the QuantConnect account in the explorer, grouped by language.
+ * Each project shows its files, backtests and live deployments.
+ */
+export class CloudProjectsProvider implements vscode.TreeDataProvider<CloudNode> {
+    private changeEmitter = new vscode.EventEmitter<CloudNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    /**Live deployments of every project. Fetched once per refresh since the API can't filter by project */
+    private liveAlgorithms?: Promise<LiveAlgorithm[]>;
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    /**
+     * Register the tree view and the commands of its context menu
+     */
+    public static register(context: vscode.ExtensionContext): CloudProjectsProvider {
+        let provider = new CloudProjectsProvider(context);
+
+        context.subscriptions.push(vscode.window.registerTreeDataProvider('quantconnectProjects', provider));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.refreshCloudProjects', () => provider.refresh()));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.openCloudItem', (node: CloudNode) => provider.open(node).catch(reportError)));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.downloadCloudProject', (node: ProjectNode) => provider.download(node)));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.deleteCloudProject', (node: ProjectNode) => provider.deleteProject(node).catch(reportError)));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.renameCloudFile', (node: FileNode) => provider.renameFile(node).catch(reportError)));
+        context.subscriptions.push(vscode.commands.registerCommand('extension.showCloudBacktestHistory', (node: FolderNode) => {
+            BacktestHistoryPanel.show(CredManager.api, node.project.projectId, node.project.name);
+        }));
+
+        return provider;
+    }
+
+    public refresh() {
+        this.liveAlgorithms = undefined;
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getTreeItem(element: CloudNode): vscode.TreeItem {
+        return element;
+    }
+
+    public async getChildren(element?: CloudNode): Promise<CloudNode[]> {
+        try {
+            if (!element) {
+                return await this.getLanguageNodes();
+            }
+            if (element instanceof LanguageNode) {
+                return element.projects.map(project => new ProjectNode(project));
+            }
+            if (element instanceof ProjectNode) {
+                return (['files', 'backtests', 'live'] as FolderKind[]).map(kind => new FolderNode(element.project, kind));
+            }
+            if (element instanceof FolderNode) {
+                return await this.getFolderChildren(element);
+            }
+        }
+        catch (err) {
+            console.log(err);
+            vscode.window.showErrorMessage(`Unable to load QuantConnect projects: ${err.message}`);
+        }
+        return [];
+    }
+
+    private async getLanguageNodes(): Promise<LanguageNode[]> {
+        let response = await CredManager.api.listProjects();
+
+        let byLanguage = new Map<Language, Project[]>();
+        for (let project of response.projects) {
+            let projects = byLanguage.get(project.language) || [];
+            projects.push(project);
+            byLanguage.set(project.language, projects);
+        }
+
+        let nodes: LanguageNode[] = [];
+        byLanguage.forEach((projects, language) => {
+            nodes.push(new LanguageNode(language, projects.sort((a, b) => a.name.localeCompare(b.name))));
+        });
+        return nodes.sort((a, b) => String(a.label).localeCompare(String(b.label)));
+    }
+
+    private async getFolderChildren(folder: FolderNode): Promise<CloudNode[]> {
+        let projectId = folder.project.projectId;
+
+        switch (folder.kind) {
+            case 'files':
+            let files = await CredManager.api.readProjectFiles(projectId);
+            return files.files.map(file => new FileNode(folder.project, file));
+
+            case 'backtests':
+            let backtests = await CredManager.api.listBacktests(projectId);
+            return backtests.backtests
+                .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
+                .map(backtest => new BacktestNode(folder.project, backtest));
+
+            case 'live':
+            let live = await this.getLiveAlgorithms();
+            return live
+                .filter(algorithm => algorithm.projectId === projectId)
+                .map(algorithm => new LiveNode(folder.project, algorithm));
+        }
+    }
+
+    private getLiveAlgorithms(): Promise<LiveAlgorithm[]> {
+        if (!this.liveAlgorithms) {
+            this.liveAlgorithms = Promise.all(LIVE_STATUSES.map(status => CredManager.api.listLiveAlgorithms(status)))
+                .then(responses => ([] as LiveAlgorithm[]).concat(...responses.map(response => response && response.live ? response.live : [])));
+        }
+        return this.liveAlgorithms;
+    }
+
+    /**
+     * Open a file, backtest or live deployment. Files of downloaded projects are opened from disk,
+     * other files are opened straight from the cloud through the `qc://` file system
+     */
+    public async open(node: CloudNode) {
+        if (node instanceof FileNode) {
+            let localProject = QCAlgorithmProject.getProjectById(node.project.projectId);
+            let localPath = localProject ? localProject.getFilePath(node.file.name) : undefined;
+
+            if (localPath && fs.existsSync(localPath)) {
+                await vscode.window.showTextDocument(vscode.Uri.file(localPath));
+                return;
+            }
+
+            await vscode.window.showTextDocument(toCloudUri(CredManager.activeProfile || DEFAULT_PROFILE, node.project.projectId, node.file.name));
+            return;
+        }
+
+        if (node instanceof BacktestNode) {
+            let backtest = await CredManager.api.readBacktest(node.project.projectId, node.backtest.backtestId);
+            BacktestResultsPanel.show(backtest, node.project.name);
+            return;
+        }
+
+        if (node instanceof LiveNode) {
+            LiveDashboardPanel.show(CredManager.api, node.project.projectId, node.live.deployId, node.project.name);
+        }
+    }
+
+    /**
+     * Download a cloud project into one of the workspace folders
+     */
+    public async download(node: ProjectNode) {
+        if (QCAlgorithmProject.getProjectById(node.project.projectId)) {
+            vscode.window.showInformationMessage(`${node.project.name} has already been downloaded`);
+            return;
+        }
+
+        try {
+            let folder = await QCAlgorithmProject.pickWorkspaceFolder();
+            if (!folder) {
+                return;
+            }
+
+            let projectPath = QCAlgorithmProject.getProjectPath(folder, node.project.name);
+            Projects.push(new QCAlgorithmProject(this.context, CredManager, node.project.name, node.project.language, false, false, undefined, undefined, undefined, projectPath));
+            this.refresh();
+        }
+        catch (err) {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        }
+    }
+
+    /**
+     * Delete a project from the cloud after confirmation. Local files are left untouched,
+     * apart from the manifest that bound the folder to the deleted project
+     */
+    public async deleteProject(node: ProjectNode) {
+        let selection = await vscode.window.showWarningMessage(`Are you sure you want to delete ${node.project.name} from the QuantConnect cloud? This can not be undone`, { modal: true }, 'Delete');
+
+        if (selection !== 'Delete') {
+            return;
+        }
+
+        await CredManager.api.deleteProject(node.project.projectId);
+
+        let localProject = QCAlgorithmProject.getProjectById(node.project.projectId);
+        if (localProject) {
+            Projects.splice(Projects.indexOf(localProject), 1);
+            localProject.deleteManifest();
+        }
+
+        vscode.window.showInformationMessage(`${node.project.name} deleted from the cloud`);
+        this.refresh();
+    }
+
+    /**
+     * Rename a file in the cloud, and on disk if the project has been downloaded
+     */
+    public async renameFile(node: FileNode) {
+        let newName = await vscode.window.showInputBox({
+            prompt: 'Enter the new file name',
+            value: node.file.name,
+            ignoreFocusOut: true
+        });
+
+        if (!newName || newName === node.file.name) {
+            return;
+        }
+
+        await CredManager.api.updateProjectFileName(node.project.projectId, node.file.name, newName);
+
+        let localProject = QCAlgorithmProject.getProjectById(node.project.projectId);
+        if (localProject) {
+            localProject.renameLocalFile(node.file.name, newName);
+        }
+        this.refresh();
+    }
+}
+
+/**
+ * Show errors of commands run from the explorer
+ */
+function reportError(err: Error) {
+    console.log(err);
+    vscode.window.showErrorMessage(err.message);
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Backtest, BacktestResult, LeanApi, OrderStatus, OrderType, TradeDirection } from './api';
+import { QCAlgorithmProject } from './project';
+import { formatValue } from './webview';
+
+/**Files a backtest can be exported to */
+export enum ExportFormat {
+    ClosedTrades = 'Closed trades (CSV)',
+    Orders = 'Orders (CSV)',
+    Result = 'Full result (JSON)',
+    Report = 'Report (HTML)',
+}
+
+/**Suffix and extension of the file written for each format */
+const EXPORT_FILE_SUFFIXES: { [format: string]: string } = {
+    [ExportFormat.ClosedTrades]: '-trades.csv',
+    [ExportFormat.Orders]: '-orders.csv',
+    [ExportFormat.Result]: '-result.json',
+    [ExportFormat.Report]: '-report.html',
+};
+
+/**A field of a CSV row. Dates are written in ISO format and undefined as an empty field */
+export type CsvValue = string | number | boolean | Date | undefined;
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break
+ */
+function escapeCsv(value: CsvValue): string {
+    let text = value instanceof Date ? value.toISOString() : (value === undefined || value === null ? '' : String(value));
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header row. Lines end in CRLF as spreadsheets expect
+ */
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+    return [headers, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Render the closed trades of a backtest as CSV, one trade per row
+ */
+export function closedTradesToCsv(result: BacktestResult): string {
+    let trades = result.TotalPerformance && result.TotalPerformance.ClosedTrades ? result.TotalPerformance.ClosedTrades : [];
+    let headers = ['Symbol', 'Direction', 'Entry Time', 'Entry Price', 'Exit Time', 'Exit Price', 'Quantity',
+        'Profit Loss', 'Total Fees', 'MAE', 'MFE', 'Duration', 'End Trade Drawdown'];
+
+    return toCsv(headers, trades.map(trade => [
+        trade.Symbol ? trade.Symbol.Value : '',
+        TradeDirection[trade.Direction],
+        trade.EntryTime,
+        trade.EntryPrice,
+        trade.ExitTime,
+        trade.ExitPrice,
+        trade.Quantity,
+        trade.ProfitLoss,
+        trade.TotalFees,
+        trade.MAE,
+        trade.MFE,
+        trade.Duration,
+        trade.EndTradeDrawdown
+    ]));
+}
+
+/**
+ * Render the orders of a backtest as CSV, one order per row in the order they were placed
+ */
+export function ordersToCsv(result: BacktestResult): string {
+    let orders = Object.keys(result.Orders || {}).map(key => result.Orders[key]).sort((a, b) => a.Id - b.Id);
+    let headers = ['Id', 'Symbol', 'Type', 'Status', 'Direction', 'Time', 'Last Fill Time', 'Quantity', 'Price', 'Value', 'Tag'];
+
+    return toCsv(headers, orders.map(order => [
+        order.Id,
+        order.Symbol ? order.Symbol.Value : '',
+        OrderType[order.Type],
+        OrderStatus[order.Status],
+        order.Quantity < 0 ? 'Sell' : 'Buy',
+        order.Time,
+        order.LastFillTime,
+        order.Quantity,
+        order.Price,
+        order.Value,
+        order.Tag
+    ]));
+}
+
+/**
+ * Exports backtests to files for use outside of VSCode: closed trades and orders as CSV,
+ * the full result as JSON and the report generated by QuantConnect as HTML
+ */
+export class BacktestExporter {
+    private constructor() {}
+
+    /**
+     * Entry point of the `extension.exportBacktest` command.
+     * Lets the user pick one of the backtests of the currently open project and the formats to export it to
+     */
+    public static exportForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to export its backtests');
+            return;
+        }
+
+        let openProject = project;
+        openProject.api.listBacktests(openProject.projectId).then(response => {
+            let items = response.backtests
+                .filter(backtest => backtest.completed)
+                .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime())
+                .map(backtest => ({ label: backtest.name, description: formatValue(new Date(backtest.created)), backtestId: backtest.backtestId }));
+
+            return vscode.window.showQuickPick(items, {
+                ignoreFocusOut: true,
+                placeHolder: 'Select the backtest to export'
+            });
+        })
+        .then(selection => {
+            if (!selection) {
+                return;
+            }
+            return BacktestExporter.export(openProject.api, openProject.projectId, selection.backtestId);
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Ask the user for the formats and folder to export a backtest to, and write the files
+     */
+    public static async export(api: LeanApi, projectId: number, backtestId: string) {
+        let formats = await vscode.window.showQuickPick(Object.keys(EXPORT_FILE_SUFFIXES), {
+            canPickMany: true,
+            ignoreFocusOut: true,
+            placeHolder: 'Select the files to export'
+        });
+        if (!formats || formats.length === 0) {
+            return;
+        }
+
+        let folders = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Export'
+        });
+        if (!folders || folders.length === 0) {
+            return;
+        }
+
+        let backtest = await api.readBacktest(projectId, backtestId);
+        let written: string[] = [];
+
+        for (let format of formats) {
+            let filePath = path.join(folders[0].fsPath, BacktestExporter.getFileName(backtest) + EXPORT_FILE_SUFFIXES[format]);
+
+            fs.writeFileSync(filePath, await BacktestExporter.render(api, projectId, backtest, <ExportFormat> format));
+            written.push(path.basename(filePath));
+        }
+
+        vscode.window.showInformationMessage(`Exported ${written.join(', ')} to ${folders[0].fsPath}`);
+    }
+
+    private static async render(api: LeanApi, projectId: number, backtest: Backtest, format: ExportFormat): Promise<string> {
+        if (format === ExportFormat.Report) {
+            let response = await api.readBacktestreport(projectId, backtest.backtestId);
+            return response.report;
+        }
+
+        if (!backtest.result) {
+            throw new Error(`Backtest '${backtest.name}' has no results to export`);
+        }
+
+        switch (format) {
+            case ExportFormat.ClosedTrades:
+            return closedTradesToCsv(backtest.result);
+
+            case ExportFormat.Orders:
+            return ordersToCsv(backtest.result);
+
+            case ExportFormat.Result:
+            return JSON.stringify(backtest.result, undefined, 4);
+        }
+    }
+
+    /**
+     * Name the exported files after the backtest, keeping only characters that are safe in file names
+     */
+    private static getFileName(backtest: Backtest): string {
+        return backtest.name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || backtest.backtestId;
+    }
+}
\ No newline at end of file
@@ -3,81 +3,187 @@ import * as path from 'path';
 import * as vscode from 'vscode';
 import { QCAlgorithmProject } from './project';
 import { CredentialManager } from './credentials';
+import { CloudFileSystemProvider } from './cloudfs';
+import { BacktestComparisonPanel } from './comparison';
+import { LiveDeploymentWizard } from './deploy';
+import { BacktestExporter } from './export';
+import { GitLedger } from './git';
+import { CompileDiagnostics } from './diagnostics';
+import { CloudProjectsProvider } from './explorer';
+import { BacktestHistoryPanel } from './history';
+import { LiveDashboardPanel } from './live';
+import { LiveLogChannel } from './logs';
+import { LocalBacktestRunner } from './local';
+import { findProjectFolders, readManifest, writeManifest } from './manifest';
+import { ParameterSweepPanel } from './optimize';
+import { ProjectStatusBar } from './status';
+import { SyncState, SyncStore } from './sync';
+import { ProjectFileWatcher } from './watcher';
 import { Language, LeanApi } from './api';
 
+/**
+ * A project as older versions of the extension stored it in the global state
+ */
+interface StoredProject {
+    projectPath: string;
+    projectName: string;
+    projectLanguage: Language;
+    projectId?: number;
+    profileName?: string;
+    frameworkProject?: boolean;
+    files?: (SyncState & { filePath: string })[];
+}
+
 /**
  * Store all currently active projects here. 
  */
-export let VERSION = '0.0.2';
 export let Projects: QCAlgorithmProject[] = [];
-export let CredManager = new CredentialManager();
-export let StatusBar: vscode.StatusBarItem;
+export let CredManager: CredentialManager;
+export let CompileProblems: CompileDiagnostics;
 
 export function activate(context: vscode.ExtensionContext) {
-    // Take any projects stored in the global state and recreate the objects to get back context
+    CredManager = new CredentialManager(context.secrets);
+    CredManager.initialize().then(undefined, (err: Error) => {
+        console.log(err);
+        vscode.window.showErrorMessage(err.message);
+    });
+
+    // Recreate the projects bound by manifests in the workspace folders to get back context
     initProjects(context, CredManager);
 
-    StatusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+    CompileProblems = new CompileDiagnostics();
+    SyncStore.register(context);
 
     let selectOrCreateProject = vscode.commands.registerCommand('extension.createOrDownloadProject', () => QCAlgorithmProject.createOrDownloadProject(context, CredManager));
     let saveFileToCloud = vscode.commands.registerCommand('extension.saveFileChangesToCloud', () => QCAlgorithmProject.saveFileChangesToCloud());
-
-    // Update the credential manager in the event of a config update
+    let signIn = vscode.commands.registerCommand('extension.signIn', () => CredManager.signIn());
+    let signOut = vscode.commands.registerCommand('extension.signOut', () => CredManager.signOut());
+    let switchAccount = vscode.commands.registerCommand('extension.switchAccount', () => CredManager.switchAccount());
+    let selectProjectProfile = vscode.commands.registerCommand('extension.selectProjectProfile', () => {
+        let selection = QCAlgorithmProject.selectProfileForOpenProject(CredManager);
+
+        if (selection) {
+            selection.then(() => ProjectStatusBar.update());
+        }
+    });
+    let syncProject = vscode.commands.registerCommand('extension.syncProject', () => QCAlgorithmProject.syncOpenProject());
+    let backtest = vscode.commands.registerCommand('extension.backtest', () => QCAlgorithmProject.backtest());
+    let backtestLocally = vscode.commands.registerCommand('extension.backtestLocally', () => LocalBacktestRunner.runForOpenProject());
+    let runParameterSweep = vscode.commands.registerCommand('extension.runParameterSweep', () => ParameterSweepPanel.runForOpenProject());
+    let backtestHistory = vscode.commands.registerCommand('extension.showBacktestHistory', () => BacktestHistoryPanel.showForOpenProject(Projects));
+    let compareBacktests = vscode.commands.registerCommand('extension.compareBacktests', () => BacktestComparisonPanel.compareForOpenProject());
+    let exportBacktest = vscode.commands.registerCommand('extension.exportBacktest', () => BacktestExporter.exportForOpenProject());
+    let checkoutBacktestCommit = vscode.commands.registerCommand('extension.checkoutBacktestCommit', () => GitLedger.checkoutForOpenProject());
+    let deployLive = vscode.commands.registerCommand('extension.deployLive', () => LiveDeploymentWizard.deploy());
+    let liveDashboard = vscode.commands.registerCommand('extension.showLiveDashboard', () => LiveDashboardPanel.showForOpenProject());
+    let tailLiveLogs = vscode.commands.registerCommand('extension.tailLiveLogs', () => LiveLogChannel.tailOpenProject());
+    let filterLiveLogs = vscode.commands.registerCommand('extension.filterLiveLogs', () => LiveLogChannel.getInstance().promptForFilter());
+    let stopLiveLogs = vscode.commands.registerCommand('extension.stopLiveLogs', () => LiveLogChannel.getInstance().stop());
+
+    // Credentials typed into the settings are moved to secret storage straight away
     let onConfigChange = vscode.workspace.onDidChangeConfiguration((e) => {
         if (e.affectsConfiguration('quantconnect.apiKey') || e.affectsConfiguration('quantconnect.userId')) {
-            CredManager = new CredentialManager();
-
-            for (let project of Projects) {
-                project.api.apiKey = CredManager.apiKey;
-                project.api.userId = CredManager.userId;
-            }
+            CredManager.migrateFromSettings().then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        }
+        if (e.affectsConfiguration('quantconnect.cloudApiUrl')) {
+            CredManager.updateApis();
         }
     });
+    // The explorer shows the projects of the active profile
+    let onProfilesChange = CredManager.onDidChangeProfiles(() => {
+        ProjectStatusBar.update();
+        vscode.commands.executeCommand('extension.refreshCloudProjects');
+    });
+    let onSecretsChange = context.secrets.onDidChange(e => CredManager.onSecretsChanged(e));
 
-    let onFileSave = vscode.workspace.onDidSaveTextDocument((_) => {
-        if (!vscode.workspace.getConfiguration('quantconnect').get<boolean>('uploadOnSave', false)) {
+    let onFileSave = vscode.workspace.onDidSaveTextDocument(document => {
+        // Files opened through the `qc://` file system are written to the cloud as they're saved
+        if (document.uri.scheme !== 'file' || !vscode.workspace.getConfiguration('quantconnect').get<boolean>('uploadOnSave', false)) {
             return;
         }
         console.log('File saved, uploading to cloud');
         QCAlgorithmProject.saveFileChangesToCloud();
     });
 
-    let onWindowChange = vscode.window.onDidChangeActiveTextEditor(updateStatusBar);
+    // Projects come and go with the folders of multi-root workspaces
+    let onFoldersChange = vscode.workspace.onDidChangeWorkspaceFolders(e => {
+        for (let folder of e.removed) {
+            unloadProjects(folder);
+        }
+        for (let folder of e.added) {
+            loadProjects(context, CredManager, folder);
+        }
+        ProjectStatusBar.update();
+        vscode.commands.executeCommand('extension.refreshCloudProjects');
+    });
+
+    CloudProjectsProvider.register(context);
+    ProjectFileWatcher.register(context);
+    ProjectStatusBar.register(context);
+    CloudFileSystemProvider.register(context, CredManager);
 
     context.subscriptions.push(selectOrCreateProject);
     context.subscriptions.push(saveFileToCloud);
+    context.subscriptions.push(signIn);
+    context.subscriptions.push(signOut);
+    context.subscriptions.push(switchAccount);
+    context.subscriptions.push(selectProjectProfile);
+    context.subscriptions.push(syncProject);
+    context.subscriptions.push(backtest);
+    context.subscriptions.push(backtestLocally);
+    context.subscriptions.push(runParameterSweep);
+    context.subscriptions.push(backtestHistory);
+    context.subscriptions.push(compareBacktests);
+    context.subscriptions.push(exportBacktest);
+    context.subscriptions.push(checkoutBacktestCommit);
+    context.subscriptions.push(deployLive);
+    context.subscriptions.push(liveDashboard);
+    context.subscriptions.push(tailLiveLogs);
+    context.subscriptions.push(filterLiveLogs);
+    context.subscriptions.push(stopLiveLogs);
+    context.subscriptions.push(new vscode.Disposable(() => LiveLogChannel.dispose()));
+    context.subscriptions.push(new vscode.Disposable(() => LocalBacktestRunner.dispose()));
     context.subscriptions.push(onConfigChange);
+    context.subscriptions.push(onSecretsChange);
+    context.subscriptions.push(onProfilesChange);
     context.subscriptions.push(onFileSave);
-    context.subscriptions.push(onWindowChange);
-
-    updateStatusBar();
+    context.subscriptions.push(onFoldersChange);
+    context.subscriptions.push(CompileProblems);
 }
 
 // this method is called when your extension is deactivated
-export function deactivate(context: vscode.ExtensionContext) {
-    context.globalState.update('quantconnectProjects', Projects);
+export function deactivate() {
+    // Projects write their manifests as they change, so there's nothing left to save
 }
 
+/**
+ * Restore the projects of every workspace folder from their `.quantconnect/project.json` manifests
+ */
 function initProjects(context: vscode.ExtensionContext, credManager: CredentialManager) {
-    let projects = context.globalState.get<QCAlgorithmProject[]>('quantconnectProjects');
+    migrateStoredProjects(context);
 
-    if (projects === undefined) {
+    for (let folder of vscode.workspace.workspaceFolders || []) {
+        loadProjects(context, credManager, folder);
+    }
+}
+
+/**
+ * Restore the projects of a single workspace folder from their manifests
+ */
+function loadProjects(context: vscode.ExtensionContext, credManager: CredentialManager, folder: vscode.WorkspaceFolder) {
+    if (folder.uri.scheme !== 'file') {
         return;
     }
-    for (let i = 0; i < projects.length; i++) {
-        // Don't bother creating new project directories if we've already deleted them
-        if (!fs.existsSync(projects[i].projectPath)) {
+    for (let projectPath of findProjectFolders(folder.uri.fsPath)) {
+        let manifest = readManifest(projectPath);
+
+        if (!manifest || Projects.some(project => project.projectPath === projectPath)) {
             continue;
         }
-        let project = new QCAlgorithmProject(
-            context, 
-            credManager, 
-            projects[i].projectName, 
-            projects[i].projectLanguage, 
-            false, 
-            true, 
-            projects[i].projectId
-        );
+        let project = QCAlgorithmProject.fromManifest(context, credManager, projectPath, manifest);
 
         if (project.projectId === undefined) {
             let result = project.setProjectIdFromProjectName();
@@ -90,22 +196,54 @@ function initProjects(context: vscode.ExtensionContext, credManager: CredentialM
     }
 }
 
-function updateStatusBar() {
-    let project = QCAlgorithmProject.getOpenProject();
-    let file = QCAlgorithmProject.getOpenFile(project);
-
-    if (!project) {
-        StatusBar.text = 'QuantConnect: No project selected';
-        StatusBar.show();
+/**
+ * Forget the projects of a workspace folder that was removed from the workspace. Their manifests stay on disk
+ */
+function unloadProjects(folder: vscode.WorkspaceFolder) {
+    if (folder.uri.scheme !== 'file') {
         return;
     }
+    for (let project of Projects.slice()) {
+        let relativePath = path.relative(folder.uri.fsPath, project.projectPath);
+
+        if (!relativePath.startsWith('..') && !path.isAbsolute(relativePath)) {
+            Projects.splice(Projects.indexOf(project), 1);
+        }
+    }
+}
 
-    if (!file) {
-        StatusBar.text = 'QuantConnect: No file selected';
-        StatusBar.show();
+/**
+ * Write manifests for the projects older versions of the extension kept in the global state,
+ * then drop them from the global state
+ */
+function migrateStoredProjects(context: vscode.ExtensionContext) {
+    let projects = context.globalState.get<StoredProject[]>('quantconnectProjects');
+
+    if (projects === undefined) {
         return;
     }
+    for (let project of projects) {
+        // Don't bother with project directories we've already deleted, or that already have a manifest
+        if (!fs.existsSync(project.projectPath) || readManifest(project.projectPath)) {
+            continue;
+        }
 
-    StatusBar.text = `QuantConnect: ${project.projectLanguage} - ${project.projectName}/${path.basename(file.filePath)}`;
-    StatusBar.show();
-}
\ No newline at end of file
+        let files: { [fileName: string]: SyncState } = {};
+        for (let file of project.files || []) {
+            if (file.syncedHash !== undefined) {
+                let fileName = path.relative(project.projectPath, file.filePath).split(path.sep).join('/');
+                files[fileName] = { syncedHash: file.syncedHash, cloudModified: file.cloudModified };
+            }
+        }
+
+        writeManifest(project.projectPath, {
+            projectId: project.projectId,
+            name: project.projectName,
+            language: project.projectLanguage,
+            profile: project.profileName,
+            framework: project.frameworkProject,
+            files: files
+        });
+    }
+    context.globalState.update('quantconnectProjects', undefined);
+}
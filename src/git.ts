@@ -0,0 +1,288 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Backtest, LeanApiError } from './api';
+import { MANIFEST_DIRECTORY } from './manifest';
+import { QCAlgorithmProject, QCProjectFile } from './project';
+import { ProjectFileWatcher } from './watcher';
+import { formatValue } from './webview';
+
+/**Name of the ledger inside the `.quantconnect` directory of a project */
+export const LEDGER_FILE = 'ledger.jsonl';
+
+/**Prefix of the commit line we add to backtest notes */
+const NOTE_PREFIX = 'git:';
+
+/**The commit a project was at when a backtest was launched or a file was uploaded */
+export interface GitCommitInfo {
+    /**Full SHA of HEAD */
+    sha: string;
+    /**Checked out branch. Undefined on a detached HEAD */
+    branch?: string;
+    /**Whether the project folder had uncommitted changes */
+    dirty: boolean;
+}
+
+/**A backtest or upload recorded in the ledger, one per line */
+export interface LedgerEntry extends GitCommitInfo {
+    /**ISO date of the launch or upload */
+    time: string;
+    projectId: number;
+    /**Set for backtests */
+    backtestId?: string;
+    backtestName?: string;
+    /**Cloud name of the uploaded file. Set for uploads */
+    fileName?: string;
+}
+
+/**
+ * Run git and resolve with its trimmed output. Rejects if git is missing or exits with an error
+ */
+function git(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+        childProcess.execFile('git', args, { cwd: cwd }, (err, stdout, stderr) => {
+            if (err) {
+                reject(new Error(stderr.trim() || err.message));
+                return;
+            }
+            resolve(stdout.trim());
+        });
+    });
+}
+
+/**
+ * Read the commit a project folder is at.
+ * The `.quantconnect` directory changes with every sync, so it doesn't make the project dirty
+ *
+ * @returns Commit, or undefined if the folder isn't in a git repository or git isn't installed
+ */
+export async function readGitInfo(projectPath: string): Promise<GitCommitInfo | undefined> {
+    try {
+        let sha = await git(projectPath, ['rev-parse', 'HEAD']);
+        let branch = await git(projectPath, ['rev-parse', '--abbrev-ref', 'HEAD']);
+        let status = await git(projectPath, ['status', '--porcelain', '--', '.', `:(exclude)${MANIFEST_DIRECTORY}`]);
+
+        return { sha: sha, branch: branch === 'HEAD' ? undefined : branch, dirty: status.length > 0 };
+    }
+    catch (err) {
+        return;
+    }
+}
+
+/**
+ * Describe a commit in a single line for the note of a backtest, e.g. `git: <full sha> (main, dirty)`
+ */
+export function formatCommitNote(commit: GitCommitInfo): string {
+    let details = [commit.branch || 'detached', ...(commit.dirty ? ['dirty'] : [])];
+
+    return `${NOTE_PREFIX} ${commit.sha} (${details.join(', ')})`;
+}
+
+/**
+ * Read back the commit line written by `formatCommitNote`
+ *
+ * @returns Commit, or undefined if the note has no commit line
+ */
+export function parseCommitNote(note: string | undefined): GitCommitInfo | undefined {
+    let match = new RegExp(`^${NOTE_PREFIX} ([0-9a-f]{7,40}) \\(([^)]*)\\)$`, 'm').exec(note || '');
+
+    if (!match) {
+        return;
+    }
+
+    let details = match[2].split(', ');
+    return { sha: match[1], branch: details[0] === 'detached' ? undefined : details[0], dirty: details.indexOf('dirty') !== -1 };
+}
+
+/**
+ * Append a backtest or upload to the ledger of a project
+ */
+export function appendLedgerEntry(projectPath: string, entry: LedgerEntry) {
+    let ledgerPath = path.join(projectPath, MANIFEST_DIRECTORY, LEDGER_FILE);
+
+    fs.mkdirSync(path.dirname(ledgerPath), { recursive: true });
+    fs.appendFileSync(ledgerPath, JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Read the ledger of a project. Lines that can't be parsed are skipped
+ */
+export function readLedger(projectPath: string): LedgerEntry[] {
+    let ledgerPath = path.join(projectPath, MANIFEST_DIRECTORY, LEDGER_FILE);
+
+    if (!fs.existsSync(ledgerPath)) {
+        return [];
+    }
+
+    let entries: LedgerEntry[] = [];
+    for (let line of fs.readFileSync(ledgerPath).toString().split('\n')) {
+        try {
+            if (line.trim()) {
+                entries.push(JSON.parse(line));
+            }
+        }
+        catch (err) {
+            console.log(`Skipping invalid ledger line: ${line}`);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Ties backtests and uploads to the git commits that produced them. Every backtest launched from a project in a git repository
+ * gets the commit in its note and in the project's ledger, every upload gets it in the ledger,
+ * and the commit of any backtest can be checked out again
+ */
+export class GitLedger {
+    private constructor() {}
+
+    /**
+     * Record the commit a backtest was launched from in its note and in the ledger.
+     * Backtests of projects outside of git repositories are left alone
+     */
+    public static async recordBacktest(project: QCAlgorithmProject, backtest: Backtest, commit: GitCommitInfo | undefined) {
+        if (!commit) {
+            return;
+        }
+
+        let note = backtest.note ? `${backtest.note}\n${formatCommitNote(commit)}` : formatCommitNote(commit);
+        await project.api.updateBacktest(project.projectId, backtest.backtestId, backtest.name, note);
+
+        appendLedgerEntry(project.projectPath, {
+            time: new Date().toISOString(),
+            projectId: project.projectId,
+            backtestId: backtest.backtestId,
+            backtestName: backtest.name,
+            ...commit
+        });
+    }
+
+    /**
+     * Record the commit a file was uploaded to the cloud from in the ledger.
+     * Uploads from projects outside of git repositories are left alone
+     */
+    public static async recordUpload(project: QCAlgorithmProject, fileName: string) {
+        let commit = await readGitInfo(project.projectPath);
+        if (!commit) {
+            return;
+        }
+
+        appendLedgerEntry(project.projectPath, {
+            time: new Date().toISOString(),
+            projectId: project.projectId,
+            fileName: fileName,
+            ...commit
+        });
+    }
+
+    /**
+     * Entry point of the `extension.checkoutBacktestCommit` command.
+     * Lets the user pick a backtest of the currently open project and checks out the commit it was launched from
+     */
+    public static checkoutForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to check out the commit of a backtest');
+            return;
+        }
+
+        let openProject = project;
+        let ledger = readLedger(openProject.projectPath);
+
+        openProject.api.listBacktests(openProject.projectId).then(response => {
+            let items = response.backtests
+                .map(backtest => ({ backtest: backtest, commit: GitLedger.findCommit(backtest, ledger) }))
+                .filter(item => item.commit !== undefined)
+                .sort((a, b) => new Date(b.backtest.created).getTime() - new Date(a.backtest.created).getTime())
+                .map(item => ({
+                    label: item.backtest.name,
+                    description: formatValue(new Date(item.backtest.created)),
+                    detail: formatCommitNote(item.commit!),
+                    commit: item.commit!
+                }));
+
+            if (items.length === 0) {
+                throw new Error(`None of the backtests of ${openProject.projectName} were launched from a git commit`);
+            }
+            return vscode.window.showQuickPick(items, {
+                ignoreFocusOut: true,
+                placeHolder: 'Select the backtest to check out the commit of'
+            });
+        })
+        .then(selection => {
+            if (!selection) {
+                return;
+            }
+            return GitLedger.checkoutProject(openProject, selection.commit);
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Check out a commit. Refuses to when the repository has uncommitted changes, since they could be lost.
+     * Like in `readGitInfo`, changes to the `.quantconnect` directories of projects in the repository don't count
+     */
+    public static async checkout(projectPath: string, commit: GitCommitInfo) {
+        if (await git(projectPath, ['status', '--porcelain', '--untracked-files=no', '--', ':/', `:(top,glob,exclude)**/${MANIFEST_DIRECTORY}/**`])) {
+            throw new Error('The repository has uncommitted changes. Commit or stash them before checking out the commit of a backtest');
+        }
+
+        await git(projectPath, ['checkout', commit.sha]);
+
+        let warning = commit.dirty ? ' The backtest was launched with uncommitted changes that are not part of this commit' : '';
+        vscode.window.showInformationMessage(`Checked out ${commit.sha.substring(0, 7)}${commit.branch ? ` from ${commit.branch}` : ''}.${warning}`);
+    }
+
+    /**
+     * Check out a commit and bring the project in line with it. The file watcher is suspended meanwhile,
+     * since it would create every file the checkout adds in the cloud and ask about every file it removes one at a time.
+     * The cloud is then updated in a single sync, once the user agrees to it
+     */
+    private static async checkoutProject(project: QCAlgorithmProject, commit: GitCommitInfo) {
+        let removed: QCProjectFile[];
+        let suspension = ProjectFileWatcher.suspend();
+
+        try {
+            await GitLedger.checkout(project.projectPath, commit);
+            removed = project.reconcileWithDisk();
+        }
+        finally {
+            suspension.dispose();
+        }
+
+        let deletion = removed.length > 0 ? ` ${removed.length} file(s) removed by the checkout will be deleted from the cloud` : '';
+        let selection = await vscode.window.showInformationMessage(`Update ${project.projectName} in the cloud to match the checked out files?${deletion}`, 'Update Cloud');
+
+        if (selection !== 'Update Cloud') {
+            return;
+        }
+
+        for (let file of removed) {
+            try {
+                await project.api.deleteProjectFile(project.projectId, project.getFileName(file.filePath));
+            }
+            catch (err) {
+                // Files that were never uploaded have nothing to delete
+                if (!(err instanceof LeanApiError && err.isFileNotFound)) {
+                    throw err;
+                }
+            }
+        }
+        await project.sync();
+        vscode.window.showInformationMessage(`${project.projectName} is in sync with the cloud`);
+    }
+
+    /**
+     * Look the commit of a backtest up in the ledger, falling back to its note for backtests launched by someone else
+     */
+    private static findCommit(backtest: Backtest, ledger: LedgerEntry[]): GitCommitInfo | undefined {
+        let entry = ledger.find(candidate => candidate.backtestId === backtest.backtestId);
+
+        return entry || parseCommitNote(backtest.note);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import { Backtest, LeanApi, StatisticsKey } from './api';
+import { BacktestComparisonPanel } from './comparison';
+import { BacktestExporter } from './export';
+import { QCAlgorithmProject } from './project';
+import { BacktestResultsPanel } from './results';
+import { escapeHtml, formatValue, renderDocument } from './webview';
+
+/**Statistics shown for each backtest in the history table */
+const KEY_STATISTICS: StatisticsKey[] = ['Net Profit', 'Sharpe Ratio', 'Drawdown', 'Compounding Annual Return'];
+
+/**Messages posted by the history webview */
+interface HistoryMessage {
+    command: 'rename' | 'note' | 'delete' | 'compare' | 'open' | 'export' | 'refresh';
+    backtestId?: string;
+    backtestIds?: string[];
+    value?: string;
+}
+
+/**Runs in the webview. Posts edits and button clicks back to the extension */
+const HISTORY_SCRIPT = `
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    document.addEventListener('change', function (event) {
+        const target = event.target;
+        if (target.dataset.field) {
+            vscode.postMessage({ command: target.dataset.field, backtestId: target.dataset.id, value: target.value });
+        }
+        if (target.id === 'select-all') {
+            document.querySelectorAll('input.select').forEach(function (box) { box.checked = target.checked; });
+        }
+    });
+
+    document.addEventListener('click', function (event) {
+        const target = event.target;
+        if (target.dataset.open) {
+            vscode.postMessage({ command: 'open', backtestId: target.dataset.open });
+        }
+        if (target.dataset.export) {
+            vscode.postMessage({ command: 'export', backtestId: target.dataset.export });
+        }
+        if (target.id === 'delete' || target.id === 'compare') {
+            const ids = Array.prototype.map.call(document.querySelectorAll('input.select:checked'), function (box) { return box.dataset.id; });
+            vscode.postMessage({ command: target.id, backtestIds: ids });
+        }
+        if (target.id === 'select-older') {
+            const cutoff = Date.now() - parseInt(document.getElementById('older-days').value, 10) * 86400000;
+            document.querySelectorAll('input.select').forEach(function (box) { box.checked = parseInt(box.dataset.created, 10) < cutoff; });
+        }
+        if (target.id === 'refresh') {
+            vscode.postMessage({ command: 'refresh' });
+        }
+    });
+}());
+`;
+
+/**
+ * Webview listing every backtest of a project. Backtests can be renamed, annotated,
+ * deleted in bulk, compared, exported and reopened in the results view. One panel is kept per project
+ */
+export class BacktestHistoryPanel {
+    /**Open panels keyed by project id */
+    private static panels = new Map<number, BacktestHistoryPanel>();
+
+    private panel: vscode.WebviewPanel;
+    private backtests: Backtest[] = [];
+
+    private constructor(private api: LeanApi, private projectId: number, private projectName: string) {
+        this.panel = vscode.window.createWebviewPanel(
+            'quantconnect.backtestHistory',
+            `Backtests: ${projectName}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.onDidDispose(() => BacktestHistoryPanel.panels.delete(this.projectId));
+        this.panel.webview.onDidReceiveMessage((message: HistoryMessage) => {
+            this.handleMessage(message).then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        });
+        this.refresh();
+    }
+
+    /**
+     * Show the backtest history of a project, reusing its panel if it's already open
+     */
+    public static show(api: LeanApi, projectId: number, projectName: string) {
+        let existing = BacktestHistoryPanel.panels.get(projectId);
+
+        if (existing) {
+            existing.panel.reveal();
+            existing.refresh();
+            return;
+        }
+        BacktestHistoryPanel.panels.set(projectId, new BacktestHistoryPanel(api, projectId, projectName));
+    }
+
+    /**
+     * Entry point of the `extension.showBacktestHistory` command.
+     * Uses the currently open project, or asks the user to pick one of the local projects
+     */
+    public static showForOpenProject(projects: QCAlgorithmProject[]) {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (project) {
+            BacktestHistoryPanel.show(project.api, project.projectId, project.projectName);
+            return;
+        }
+        if (projects.length === 0) {
+            vscode.window.showErrorMessage('You must create or download a project in order to see its backtests');
+            return;
+        }
+
+        vscode.window.showQuickPick(projects.map(localProject => localProject.projectName), {
+            placeHolder: 'Select a project to see its backtests'
+        })
+        .then(projectName => {
+            let selected = projects.find(localProject => localProject.projectName === projectName);
+
+            if (selected) {
+                BacktestHistoryPanel.show(selected.api, selected.projectId, selected.projectName);
+            }
+        });
+    }
+
+    private refresh() {
+        this.api.listBacktests(this.projectId).then(response => {
+            this.backtests = response.backtests.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+            this.render();
+        })
+        .catch((err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    private async handleMessage(message: HistoryMessage) {
+        switch (message.command) {
+            case 'rename':
+            case 'note':
+            let backtestId = message.backtestId!;
+            if (message.command === 'rename') {
+                await this.api.updateBacktest(this.projectId, backtestId, message.value);
+            }
+            else {
+                await this.api.updateBacktest(this.projectId, backtestId, undefined, message.value);
+            }
+            for (let updated of this.backtests.filter(existing => existing.backtestId === backtestId)) {
+                if (message.command === 'rename') {
+                    updated.name = message.value || '';
+                }
+                else {
+                    updated.note = message.value;
+                }
+            }
+            return;
+
+            case 'delete':
+            await this.deleteBacktests(message.backtestIds || []);
+            return;
+
+            case 'compare':
+            await BacktestComparisonPanel.show(this.api, this.projectId, this.projectName, message.backtestIds || []);
+            return;
+
+            case 'open':
+            let backtest = await this.api.readBacktest(this.projectId, message.backtestId!);
+            BacktestResultsPanel.show(backtest, this.projectName);
+            return;
+
+            case 'export':
+            await BacktestExporter.export(this.api, this.projectId, message.backtestId!);
+            return;
+
+            case 'refresh':
+            this.refresh();
+            return;
+        }
+    }
+
+    private async deleteBacktests(backtestIds: string[]) {
+        if (backtestIds.length === 0) {
+            vscode.window.showInformationMessage('Select the backtests you want to delete first');
+            return;
+        }
+
+        let selection = await vscode.window.showWarningMessage(`Are you sure you want to delete ${backtestIds.length} backtest(s)? This can not be undone`, { modal: true }, 'Delete');
+        if (selection !== 'Delete') {
+            return;
+        }
+
+        let failed = 0;
+        for (let backtestId of backtestIds) {
+            try {
+                await this.api.deleteBacktest(this.projectId, backtestId);
+            }
+            catch (err) {
+                console.log(err);
+                failed++;
+            }
+        }
+
+        if (failed > 0) {
+            vscode.window.showErrorMessage(`Failed to delete ${failed} of ${backtestIds.length} backtest(s)`);
+        }
+        this.refresh();
+    }
+
+    private render() {
+        let rows = this.backtests.map(backtest => {
+            let statistics = backtest.result ? backtest.result.Statistics : undefined;
+            let id = escapeHtml(backtest.backtestId);
+
+            return `<tr>`
+                + `<td><input type="checkbox" class="select" data-id="${id}" data-created="${new Date(backtest.created).getTime()}"></td>`
+                + `<td><input type="text" data-field="rename" data-id="${id}" value="${escapeHtml(backtest.name)}"></td>`
+                + `<td><input type="text" data-field="note" data-id="${id}" value="${escapeHtml(backtest.note || '')}"></td>`
+                + `<td>${escapeHtml(formatValue(new Date(backtest.created)))}</td>`
+                + `<td>${backtest.completed ? 'Yes' : `${Math.floor(backtest.progress * 100)}%`}</td>`
+                + KEY_STATISTICS.map(key => `<td>${escapeHtml(statistics ? statistics[key] : '')}</td>`).join('')
+                + `<td><button data-open="${id}">Open</button> <button data-export="${id}">Export</button></td>`
+                + `</tr>`;
+        });
+
+        let headers = ['<input type="checkbox" id="select-all">', 'Name', 'Note', 'Created', 'Completed', ...KEY_STATISTICS.map(escapeHtml), ''];
+        let body = `<div class="toolbar">`
+            + `<button id="refresh">Refresh</button>`
+            + `<button id="select-older">Select older than</button><input type="text" id="older-days" value="30" style="width: 4em">days`
+            + `<button id="compare">Compare selected</button>`
+            + `<button id="delete">Delete selected</button>`
+            + `</div>`
+            + `<p>${this.backtests.length} backtest(s)</p>`
+            + `<table><thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+
+        this.panel.webview.html = renderDocument(`Backtests: ${this.projectName}`, body, HISTORY_SCRIPT);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,69 @@
+/**
+ * Token bucket rate limiter. Holds up to `capacity` tokens and refills them at a fixed rate.
+ *
+ * Callers wait for a token in the order they asked for one, so requests are sent in order
+ * and bursts are spread out instead of being rejected by the API.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill: number;
+    /**Callers waiting for a token, oldest first */
+    private waiting: (() => void)[] = [];
+    private timer?: NodeJS.Timer;
+
+    /**
+     * @param capacity Maximum number of tokens, i.e. the largest burst of requests allowed
+     * @param refillPerSecond Tokens added every second, i.e. the sustained request rate
+     * @param now Clock to use. Replaceable for testing
+     */
+    constructor(private capacity: number, private refillPerSecond: number, private now: () => number = Date.now) {
+        this.tokens = capacity;
+        this.lastRefill = now();
+    }
+
+    /**
+     * Wait until a token is available and take it
+     */
+    public take(): Promise<void> {
+        return new Promise(resolve => {
+            this.waiting.push(resolve);
+            this.release();
+        });
+    }
+
+    /**
+     * Stop taking tokens for the given amount of time, e.g. when the API asks us to slow down
+     */
+    public pause(ms: number) {
+        this.refill();
+        this.tokens = Math.min(this.tokens, 0) - (ms / 1000) * this.refillPerSecond;
+    }
+
+    private refill() {
+        let now = this.now();
+
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+        this.lastRefill = now;
+    }
+
+    /**
+     * Hand out tokens to waiting callers, and schedule another attempt if we ran out
+     */
+    private release() {
+        this.refill();
+
+        while (this.waiting.length > 0 && this.tokens >= 1) {
+            this.tokens -= 1;
+            this.waiting.shift()!();
+        }
+
+        if (this.waiting.length > 0 && !this.timer) {
+            let delay = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.release();
+            }, delay);
+        }
+    }
+}
\ No newline at end of file
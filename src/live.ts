@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import { AlgorithmStatus, LeanApi, LiveAlgorithm, LiveResult, OrderStatus, OrderType } from './api';
+import { LiveLogChannel } from './logs';
+import { QCAlgorithmProject } from './project';
+import { escapeHtml, formatValue, renderDocument, renderKeyValueTable, renderTable } from './webview';
+
+/**Number of most recent profit and loss entries shown on the dashboard */
+const PROFIT_LOSS_ROWS = 20;
+
+/**Messages posted by the dashboard webview */
+interface DashboardMessage {
+    command: 'stop' | 'liquidate' | 'refresh' | 'logs';
+}
+
+/**Runs in the webview. Posts button clicks back to the extension */
+const DASHBOARD_SCRIPT = `
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    document.addEventListener('click', function (event) {
+        const command = event.target.dataset.command;
+        if (command) {
+            vscode.postMessage({ command: command });
+        }
+    });
+}());
+`;
+
+/**
+ * Webview monitoring a live algorithm. Polls `readLiveAlgorithm` on an interval and renders
+ * holdings, orders, profit and loss and statistics. One panel is kept per deployment
+ */
+export class LiveDashboardPanel {
+    /**Open panels keyed by deploy id */
+    private static panels = new Map<string, LiveDashboardPanel>();
+
+    private panel: vscode.WebviewPanel;
+    private timer: NodeJS.Timer;
+    private result?: LiveResult;
+    private lastUpdate?: Date;
+    private lastError?: string;
+
+    private constructor(private api: LeanApi, private projectId: number, private deployId: string, private projectName: string) {
+        this.panel = vscode.window.createWebviewPanel(
+            'quantconnect.liveDashboard',
+            `Live: ${projectName}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+
+        let interval = vscode.workspace.getConfiguration('quantconnect').get<number>('liveRefreshInterval', 10);
+        this.timer = setInterval(() => this.refresh(), Math.max(interval, 1) * 1000);
+
+        this.panel.onDidDispose(() => {
+            clearInterval(this.timer);
+            LiveDashboardPanel.panels.delete(this.deployId);
+        });
+        this.panel.webview.onDidReceiveMessage((message: DashboardMessage) => {
+            this.handleMessage(message).then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        });
+
+        this.render();
+        this.refresh();
+    }
+
+    /**
+     * Show the dashboard of a live algorithm, reusing its panel if it's already open
+     */
+    public static show(api: LeanApi, projectId: number, deployId: string, projectName: string) {
+        let existing = LiveDashboardPanel.panels.get(deployId);
+
+        if (existing) {
+            existing.panel.reveal();
+            return;
+        }
+        LiveDashboardPanel.panels.set(deployId, new LiveDashboardPanel(api, projectId, deployId, projectName));
+    }
+
+    /**
+     * Entry point of the `extension.showLiveDashboard` command.
+     * Shows the running deployment of the currently open project
+     */
+    public static showForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to see its live deployment');
+            return;
+        }
+
+        let openProject = project;
+        openProject.api.listLiveAlgorithms(AlgorithmStatus.Running).then(response => {
+            let deployments = response.live.filter(live => live.projectId === openProject.projectId);
+            if (deployments.length === 0) {
+                vscode.window.showInformationMessage(`${openProject.projectName} has no running live deployments`);
+                return;
+            }
+
+            // Show the most recently launched deployment
+            let latest = deployments.reduce((prev: LiveAlgorithm, curr: LiveAlgorithm) => new Date(curr.launched) > new Date(prev.launched) ? curr : prev);
+            LiveDashboardPanel.show(openProject.api, openProject.projectId, latest.deployId, openProject.projectName);
+        })
+        .catch((err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    private refresh() {
+        this.api.readLiveAlgorithm(this.projectId, this.deployId).then(response => {
+            this.result = response.LiveResults ? response.LiveResults.results : undefined;
+            this.lastUpdate = new Date();
+            this.lastError = undefined;
+            this.render();
+        })
+        .catch((err: Error) => {
+            this.lastError = err.message;
+            this.render();
+        });
+    }
+
+    private async handleMessage(message: DashboardMessage) {
+        if (message.command === 'refresh') {
+            this.refresh();
+            return;
+        }
+        if (message.command === 'logs') {
+            LiveLogChannel.getInstance().tail(this.api, this.projectId, this.deployId);
+            return;
+        }
+
+        let action = message.command === 'stop' ? 'stop' : 'liquidate';
+        let confirmation = await vscode.window.showInputBox({
+            prompt: `Type the project name (${this.projectName}) to ${action} the live algorithm`,
+            ignoreFocusOut: true
+        });
+
+        if (confirmation === undefined) {
+            return;
+        }
+        if (confirmation !== this.projectName) {
+            vscode.window.showErrorMessage(`The project name did not match. The live algorithm was not told to ${action}`);
+            return;
+        }
+
+        if (message.command === 'stop') {
+            await this.api.stopLiveAlgorithm(this.projectId);
+        }
+        else {
+            await this.api.liquidateLiveAlgorithm(this.projectId);
+        }
+        vscode.window.showInformationMessage(`${this.projectName}: ${action} request sent`);
+        this.refresh();
+    }
+
+    private render() {
+        let result = this.result;
+        let body: string[] = [];
+
+        body.push(`<div class="toolbar">`
+            + `<button data-command="refresh">Refresh</button>`
+            + `<button data-command="logs">Show logs</button>`
+            + `<button data-command="stop">Stop</button>`
+            + `<button data-command="liquidate">Liquidate</button>`
+            + `<span>Deploy ID: ${escapeHtml(this.deployId)}</span>`
+            + `<span>Last update: ${this.lastUpdate ? escapeHtml(formatValue(this.lastUpdate)) : 'never'}</span>`
+            + `</div>`);
+
+        if (this.lastError) {
+            body.push(`<p class="error">${escapeHtml(this.lastError)}</p>`);
+        }
+
+        if (!result) {
+            body.push('<p>Waiting for results from the live algorithm</p>');
+            this.panel.webview.html = renderDocument(`Live: ${this.projectName}`, body.join('\n'), DASHBOARD_SCRIPT);
+            return;
+        }
+
+        let holdings = Object.keys(result.Holdings || {}).map(key => result!.Holdings[key]);
+        body.push('<h3>Holdings</h3>');
+        body.push(renderTable(['Symbol', 'Quantity', 'Average Price', 'Market Price', 'Market Value', 'Unrealized PnL'], holdings.map(holding => [
+            holding.Symbol ? holding.Symbol.Value : '',
+            holding.Quantity,
+            holding.AveragePrice,
+            holding.MarketPrice,
+            holding.MarketValue,
+            holding.UnrealizedPnL
+        ])));
+
+        let orders = Object.keys(result.Orders || {}).map(key => result!.Orders[key]).sort((a, b) => b.Id - a.Id);
+        body.push('<h3>Orders</h3>');
+        body.push(renderTable(['Id', 'Time', 'Symbol', 'Type', 'Quantity', 'Price', 'Status', 'Tag'], orders.map(order => [
+            order.Id,
+            formatValue(new Date(order.Time)),
+            order.Symbol ? order.Symbol.Value : '',
+            OrderType[order.Type],
+            order.Quantity,
+            order.Price,
+            OrderStatus[order.Status],
+            order.Tag
+        ])));
+
+        let profitLoss = Object.keys(result.ProfitLoss || {}).sort().reverse().slice(0, PROFIT_LOSS_ROWS);
+        body.push('<h3>Profit and Loss</h3>');
+        body.push(renderTable(['Time', 'Profit/Loss'], profitLoss.map(time => [time, result!.ProfitLoss[time]])));
+
+        body.push(renderKeyValueTable('Runtime Statistics', result.RuntimeStatistics));
+        body.push(renderKeyValueTable('Server Statistics', result.ServerStatistics));
+
+        this.panel.webview.html = renderDocument(`Live: ${this.projectName}`, body.join('\n'), DASHBOARD_SCRIPT);
+    }
+}
\ No newline at end of file
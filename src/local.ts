@@ -0,0 +1,355 @@
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Backtest, BacktestResult, Language } from './api';
+import { QCAlgorithmProject } from './project';
+import { BacktestResultsPanel } from './results';
+
+/**Name of the LEAN launcher assembly in a LEAN build directory */
+const LAUNCHER_ASSEMBLY = 'QuantConnect.Lean.Launcher';
+/**Where the project, results and data folders are mounted inside the LEAN container */
+const CONTAINER_PROJECT_PATH = '/Project';
+const CONTAINER_RESULTS_PATH = '/Results';
+const CONTAINER_DATA_PATH = '/Data';
+/**Launcher directory of the official LEAN image */
+const CONTAINER_LAUNCHER_PATH = '/Lean/Launcher/bin/Debug';
+/**Data folder shipped with the official LEAN image */
+const CONTAINER_DEFAULT_DATA_PATH = '/Lean/Data';
+/**Data folder of a LEAN checkout, relative to its launcher directory */
+const ENGINE_DEFAULT_DATA_PATH = '../../../Data';
+
+/**Value of LEAN's `algorithm-language` setting for each project language */
+const LEAN_LANGUAGES: { [language: string]: string } = {
+    [Language.Python]: 'Python',
+    [Language.CSharp]: 'CSharp',
+    [Language.FSharp]: 'FSharp',
+};
+
+/**Class declarations of algorithms deriving from QCAlgorithm. The first group is the class name */
+const ALGORITHM_CLASS_PATTERNS: { [language: string]: RegExp } = {
+    [Language.Python]: /^class\s+(\w+)\s*\(\s*QCAlgorithm(?:Framework)?\s*\)/m,
+    [Language.CSharp]: /\bclass\s+(\w+)\s*:\s*QCAlgorithm(?:Framework)?\b/,
+    [Language.FSharp]: /\btype\s+(\w+)\s*\(\s*\)\s*=\s*inherit\s+QCAlgorithm(?:Framework)?\b/,
+};
+
+/**Paths of a local backtest as LEAN sees them. Inside a container these differ from the paths on disk */
+export interface LeanPaths {
+    /**File the algorithm is loaded from: the Python file, or the compiled assembly for C# and F# */
+    algorithmLocation: string;
+    dataFolder: string;
+    resultsFolder: string;
+}
+
+/**LEAN `config.json` of a local backtest */
+export interface LeanConfig {
+    'environment': string;
+    'algorithm-type-name': string;
+    'algorithm-language': string;
+    'algorithm-location': string;
+    'algorithm-id': string;
+    'data-folder': string;
+    'results-destination-folder': string;
+    'log-handler': string;
+    'messaging-handler': string;
+    'job-queue-handler': string;
+    'api-handler': string;
+    'debugging': boolean;
+    'close-automatically': boolean;
+}
+
+/**
+ * Find the name of the algorithm class in the source of a project file
+ *
+ * @returns The class name, or undefined if the file doesn't declare an algorithm
+ */
+export function findAlgorithmClassName(source: string, language: Language): string | undefined {
+    let match = ALGORITHM_CLASS_PATTERNS[language].exec(source);
+
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Create the LEAN `config.json` of a local backtest. Handlers that aren't set fall back to
+ * LEAN's backtesting defaults
+ *
+ * @param backtestId Algorithm ID of the backtest. LEAN names the result file after it
+ */
+export function createLeanConfig(language: Language, className: string, backtestId: string, paths: LeanPaths): LeanConfig {
+    return {
+        'environment': 'backtesting',
+        'algorithm-type-name': className,
+        'algorithm-language': LEAN_LANGUAGES[language],
+        'algorithm-location': paths.algorithmLocation,
+        'algorithm-id': backtestId,
+        'data-folder': paths.dataFolder,
+        'results-destination-folder': paths.resultsFolder,
+        'log-handler': 'QuantConnect.Logging.CompositeLogHandler',
+        'messaging-handler': 'QuantConnect.Messaging.Messaging',
+        'job-queue-handler': 'QuantConnect.Queues.JobQueue',
+        'api-handler': 'QuantConnect.Api.Api',
+        'debugging': false,
+        'close-automatically': true,
+    };
+}
+
+/**
+ * Read the result file LEAN wrote at the end of a backtest into the shape the cloud API returns
+ */
+export function parseLeanResult(json: string): BacktestResult {
+    let result = JSON.parse(json);
+
+    return {
+        IsFrameworkAlgorithm: !!result.AlphaRuntimeStatistics,
+        AlphaRuntimeStatistics: result.AlphaRuntimeStatistics || undefined,
+        Charts: result.Charts || {},
+        Orders: result.Orders || {},
+        ProfitLoss: result.ProfitLoss || {},
+        Statistics: result.Statistics || {},
+        RuntimeStatistics: result.RuntimeStatistics || {},
+        RollingWindow: result.RollingWindow || {},
+        TotalPerformance: result.TotalPerformance || undefined,
+    };
+}
+
+/**
+ * Runs backtests of the open project on the user's machine, with a LEAN build or the LEAN Docker image,
+ * instead of in the cloud. The engine's console is streamed to the "QuantConnect Local Backtest" output channel
+ * and the result is shown in the same results view as cloud backtests.
+ *
+ * Each run gets its own folder under `.quantconnect/backtests` in the project directory,
+ * holding the generated `config.json` and everything LEAN writes.
+ */
+export class LocalBacktestRunner {
+    private static channel?: vscode.OutputChannel;
+
+    private constructor() {}
+
+    /**
+     * Entry point of the `extension.backtestLocally` command
+     */
+    public static runForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to run a backtest');
+            return;
+        }
+
+        let openProject = project;
+
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Backtesting ${openProject.projectName} locally`,
+            cancellable: true
+        }, async (progress, token) => {
+            await openProject.saveDirtyDocuments();
+
+            progress.report({ message: 'Running LEAN' });
+            return LocalBacktestRunner.run(openProject, token);
+        })
+        .then(backtest => {
+            if (!backtest.completed) {
+                vscode.window.showInformationMessage(`Local backtest '${backtest.name}' was stopped`);
+                return;
+            }
+            if (backtest.error) {
+                vscode.window.showErrorMessage(`Local backtest '${backtest.name}' failed: ${backtest.error}`);
+                return;
+            }
+            BacktestResultsPanel.show(backtest, openProject.projectName);
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    public static dispose() {
+        if (LocalBacktestRunner.channel) {
+            LocalBacktestRunner.channel.dispose();
+            LocalBacktestRunner.channel = undefined;
+        }
+    }
+
+    /**
+     * Write the LEAN config of the project, run the engine and read back its result
+     *
+     * @param token Kills the engine when cancelled
+     * @returns The backtest. It isn't completed if it was cancelled, and has an error if LEAN failed
+     */
+    private static async run(project: QCAlgorithmProject, token: vscode.CancellationToken): Promise<Backtest> {
+        const config = vscode.workspace.getConfiguration('quantconnect');
+        let enginePath = config.get<string>('localLean.enginePath');
+        let dockerImage = config.get<string>('localLean.dockerImage');
+        let dataFolder = config.get<string>('localLean.dataFolder');
+
+        if (!enginePath && !dockerImage) {
+            throw new Error('Set "quantconnect.localLean.enginePath" or "quantconnect.localLean.dockerImage" to run backtests locally');
+        }
+
+        let algorithm = LocalBacktestRunner.findAlgorithm(project);
+        let algorithmLocation = LocalBacktestRunner.getAlgorithmLocation(project, algorithm.filePath);
+        let backtestId = `local-${Date.now()}`;
+        let backtest: Backtest = {
+            success: true,
+            errors: [],
+            name: `${project.projectName} ${new Date().toISOString()} (local)`,
+            backtestId: backtestId,
+            completed: false,
+            progress: 0,
+            created: new Date(),
+        };
+        let resultsFolder = path.join(project.projectPath, '.quantconnect', 'backtests', backtestId);
+        let configPath = path.join(resultsFolder, 'config.json');
+        let command: string;
+        let args: string[];
+        let cwd: string | undefined;
+        let paths: LeanPaths;
+
+        if (enginePath) {
+            paths = {
+                algorithmLocation: algorithmLocation,
+                dataFolder: dataFolder || ENGINE_DEFAULT_DATA_PATH,
+                resultsFolder: resultsFolder,
+            };
+            [command, args] = LocalBacktestRunner.getEngineCommand(enginePath);
+            args.push('--config', configPath);
+            cwd = enginePath;
+        }
+        else {
+            let relativeLocation = path.relative(project.projectPath, algorithmLocation);
+
+            if (relativeLocation.startsWith('..') || path.isAbsolute(relativeLocation)) {
+                throw new Error(`The algorithm has to be inside the project folder to run it in a container: ${algorithmLocation}`);
+            }
+            paths = {
+                algorithmLocation: path.posix.join(CONTAINER_PROJECT_PATH, ...relativeLocation.split(path.sep)),
+                dataFolder: dataFolder ? CONTAINER_DATA_PATH : CONTAINER_DEFAULT_DATA_PATH,
+                resultsFolder: CONTAINER_RESULTS_PATH,
+            };
+            command = 'docker';
+            args = ['run', '--rm',
+                '-v', `${project.projectPath}:${CONTAINER_PROJECT_PATH}:ro`,
+                '-v', `${resultsFolder}:${CONTAINER_RESULTS_PATH}`,
+            ];
+            if (dataFolder) {
+                args.push('-v', `${dataFolder}:${CONTAINER_DATA_PATH}:ro`);
+            }
+            args.push('-w', CONTAINER_LAUNCHER_PATH, '--entrypoint', 'dotnet', dockerImage!,
+                `${LAUNCHER_ASSEMBLY}.dll`, '--config', path.posix.join(CONTAINER_RESULTS_PATH, 'config.json'));
+        }
+
+        let leanConfig = createLeanConfig(project.projectLanguage, algorithm.className, backtestId, paths);
+
+        fs.mkdirSync(resultsFolder, { recursive: true });
+        fs.writeFileSync(configPath, JSON.stringify(leanConfig, undefined, 4));
+
+        let channel = LocalBacktestRunner.getChannel();
+        channel.clear();
+        channel.show(true);
+        channel.appendLine(`> ${command} ${args.join(' ')}`);
+
+        let exitCode = await LocalBacktestRunner.spawn(command, args, cwd, channel, token);
+
+        if (token.isCancellationRequested) {
+            return backtest;
+        }
+
+        let resultPath = path.join(resultsFolder, `${backtestId}.json`);
+        backtest.completed = true;
+        backtest.progress = 1;
+
+        if (exitCode !== 0 || !fs.existsSync(resultPath)) {
+            backtest.error = `LEAN exited with code ${exitCode} without writing a result. See the "QuantConnect Local Backtest" output for details`;
+            return backtest;
+        }
+        backtest.result = parseLeanResult(fs.readFileSync(resultPath).toString());
+        return backtest;
+    }
+
+    /**
+     * Find the project file declaring the algorithm class, preferring the main file.
+     * Files are read from disk since the documents were just saved, and may have changed since the project last read them
+     */
+    private static findAlgorithm(project: QCAlgorithmProject): { filePath: string, className: string } {
+        let files = project.files.slice().sort((a, b) => {
+            return Number(!/^main\./i.test(path.basename(a.filePath))) - Number(!/^main\./i.test(path.basename(b.filePath)));
+        });
+
+        for (let file of files) {
+            if (!fs.existsSync(file.filePath)) {
+                continue;
+            }
+
+            let className = findAlgorithmClassName(fs.readFileSync(file.filePath).toString(), project.projectLanguage);
+            if (className) {
+                return { filePath: file.filePath, className: className };
+            }
+        }
+        throw new Error(`Couldn't find a class deriving from QCAlgorithm in ${project.projectName}`);
+    }
+
+    /**
+     * Python algorithms are loaded from source. C# and F# algorithms have to be built first, and LEAN
+     * loads the assembly configured in `quantconnect.localLean.algorithmLocation`
+     */
+    private static getAlgorithmLocation(project: QCAlgorithmProject, algorithmFilePath: string): string {
+        if (project.projectLanguage === Language.Python) {
+            return algorithmFilePath;
+        }
+
+        let assembly = vscode.workspace.getConfiguration('quantconnect').get<string>('localLean.algorithmLocation');
+        if (!assembly) {
+            throw new Error('Set "quantconnect.localLean.algorithmLocation" to the compiled assembly of the project to run C# and F# backtests locally');
+        }
+        return path.resolve(project.projectPath, assembly);
+    }
+
+    /**
+     * Launch a .NET Core build of LEAN with `dotnet`, and a .NET Framework build directly on Windows or with Mono elsewhere
+     */
+    private static getEngineCommand(enginePath: string): [string, string[]] {
+        if (fs.existsSync(path.join(enginePath, `${LAUNCHER_ASSEMBLY}.dll`))) {
+            return ['dotnet', [`${LAUNCHER_ASSEMBLY}.dll`]];
+        }
+        if (!fs.existsSync(path.join(enginePath, `${LAUNCHER_ASSEMBLY}.exe`))) {
+            throw new Error(`Couldn't find ${LAUNCHER_ASSEMBLY} in ${enginePath}. Set "quantconnect.localLean.enginePath" to the Launcher build directory of your LEAN checkout`);
+        }
+        if (process.platform === 'win32') {
+            return [path.join(enginePath, `${LAUNCHER_ASSEMBLY}.exe`), []];
+        }
+        return ['mono', [`${LAUNCHER_ASSEMBLY}.exe`]];
+    }
+
+    /**
+     * Run the engine, streaming its output to the channel
+     *
+     * @returns Exit code of the engine
+     */
+    private static spawn(command: string, args: string[], cwd: string | undefined, channel: vscode.OutputChannel, token: vscode.CancellationToken): Promise<number> {
+        return new Promise((resolve, reject) => {
+            let engine = childProcess.spawn(command, args, { cwd: cwd });
+            let cancellation = token.onCancellationRequested(() => engine.kill());
+
+            engine.stdout.on('data', (data: Buffer) => channel.append(data.toString()));
+            engine.stderr.on('data', (data: Buffer) => channel.append(data.toString()));
+            engine.on('error', err => {
+                cancellation.dispose();
+                reject(new Error(`Failed to start ${command}: ${err.message}`));
+            });
+            engine.on('close', (code: number | null) => {
+                cancellation.dispose();
+                channel.appendLine(`LEAN exited with code ${code}`);
+                resolve(code === null ? -1 : code);
+            });
+        });
+    }
+
+    private static getChannel(): vscode.OutputChannel {
+        if (!LocalBacktestRunner.channel) {
+            LocalBacktestRunner.channel = vscode.window.createOutputChannel('QuantConnect Local Backtest');
+        }
+        return LocalBacktestRunner.channel;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { AlgorithmStatus, LeanApi } from './api';
+import { QCAlgorithmProject } from './project';
+
+/**Number of log lines kept in memory for deduplication and re-filtering */
+const MAX_BUFFERED_LINES = 5000;
+/**How far back to read logs when we start tailing a deployment */
+const INITIAL_LOOKBACK_MS = 60 * 60 * 1000;
+/**Log levels written by LEAN, e.g. `2019-02-01 10:00:00 Trace:: message` */
+const LOG_LEVELS = ['Trace', 'Debug', 'Error'];
+
+/**Restricts the log lines written to the output channel */
+export interface LogFilter {
+    /**Only show lines of this level */
+    level?: string;
+    /**Only show lines matching this pattern */
+    pattern?: RegExp;
+}
+
+/**
+ * Check whether a log line passes the filter
+ */
+export function matchesLogFilter(line: string, filter: LogFilter): boolean {
+    if (filter.level && !new RegExp(`\\b${filter.level}\\s*::`, 'i').test(line)) {
+        return false;
+    }
+    if (filter.pattern && !filter.pattern.test(line)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Tails the logs of a live algorithm into the "QuantConnect Live Logs" output channel.
+ *
+ * Logs are polled with an overlapping `startTime`/`endTime` window so that no line is missed
+ * between polls, and lines we have already written are skipped.
+ */
+export class LiveLogChannel {
+    private static instance?: LiveLogChannel;
+
+    private channel: vscode.OutputChannel;
+    private timer?: NodeJS.Timer;
+    private api?: LeanApi;
+    private projectId?: number;
+    private deployId?: string;
+    /**End of the window of the last successful poll */
+    private lastEndTime?: Date;
+    private polling = false;
+    /**Lines received so far, in order. Used to re-render the channel when the filter changes */
+    private lines: string[] = [];
+    private seen = new Set<string>();
+    private filter: LogFilter = {};
+
+    private constructor() {
+        this.channel = vscode.window.createOutputChannel('QuantConnect Live Logs');
+    }
+
+    public static getInstance(): LiveLogChannel {
+        if (!LiveLogChannel.instance) {
+            LiveLogChannel.instance = new LiveLogChannel();
+        }
+        return LiveLogChannel.instance;
+    }
+
+    /**
+     * Entry point of the `extension.tailLiveLogs` command.
+     * Tails the logs of the running deployment of the currently open project
+     */
+    public static tailOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to see its live logs');
+            return;
+        }
+
+        let openProject = project;
+        openProject.api.listLiveAlgorithms(AlgorithmStatus.Running).then(response => {
+            let deployments = response.live.filter(live => live.projectId === openProject.projectId);
+            if (deployments.length === 0) {
+                vscode.window.showInformationMessage(`${openProject.projectName} has no running live deployments`);
+                return;
+            }
+
+            let latest = deployments.reduce((prev, curr) => new Date(curr.launched) > new Date(prev.launched) ? curr : prev);
+            LiveLogChannel.getInstance().tail(openProject.api, openProject.projectId, latest.deployId);
+        })
+        .catch((err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Start tailing the logs of a deployment. Stops tailing any other deployment
+     */
+    public tail(api: LeanApi, projectId: number, deployId: string) {
+        this.stop();
+
+        this.api = api;
+        this.projectId = projectId;
+        this.deployId = deployId;
+        this.lastEndTime = new Date(Date.now() - INITIAL_LOOKBACK_MS);
+        this.lines = [];
+        this.seen.clear();
+
+        this.channel.clear();
+        this.channel.appendLine(`Tailing logs of deployment ${deployId}`);
+        this.channel.show(true);
+
+        let interval = vscode.workspace.getConfiguration('quantconnect').get<number>('liveRefreshInterval', 10);
+        this.timer = setInterval(() => this.poll(), Math.max(interval, 1) * 1000);
+        this.poll();
+    }
+
+    /**
+     * Stop polling for new log lines. Lines already written are kept
+     */
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+            this.channel.appendLine(`Stopped tailing logs of deployment ${this.deployId}`);
+        }
+    }
+
+    /**
+     * Ask the user for a level and pattern to filter the logs by, then re-render the channel
+     */
+    public async promptForFilter() {
+        let level = await vscode.window.showQuickPick(['All levels', ...LOG_LEVELS], {
+            placeHolder: 'Only show log lines of this level'
+        });
+        if (level === undefined) {
+            return;
+        }
+
+        let pattern = await vscode.window.showInputBox({
+            prompt: 'Only show log lines matching this regular expression. Leave empty to show all lines',
+            value: this.filter.pattern ? this.filter.pattern.source : ''
+        });
+        if (pattern === undefined) {
+            return;
+        }
+
+        let filter: LogFilter = { level: level === 'All levels' ? undefined : level };
+        if (pattern) {
+            try {
+                filter.pattern = new RegExp(pattern);
+            }
+            catch (err) {
+                vscode.window.showErrorMessage(`Invalid regular expression: ${err.message}`);
+                return;
+            }
+        }
+
+        this.filter = filter;
+        this.channel.clear();
+        for (let line of this.lines.filter(bufferedLine => matchesLogFilter(bufferedLine, this.filter))) {
+            this.channel.appendLine(line);
+        }
+    }
+
+    /**
+     * Stop tailing and remove the output channel, if it was ever created
+     */
+    public static dispose() {
+        if (LiveLogChannel.instance) {
+            LiveLogChannel.instance.stop();
+            LiveLogChannel.instance.channel.dispose();
+            LiveLogChannel.instance = undefined;
+        }
+    }
+
+    private async poll() {
+        if (!this.api || this.projectId === undefined || !this.deployId || !this.lastEndTime || this.polling) {
+            return;
+        }
+
+        // Overlap the window with the previous poll so that lines logged while we were polling aren't lost
+        let interval = vscode.workspace.getConfiguration('quantconnect').get<number>('liveRefreshInterval', 10);
+        let startTime = new Date(this.lastEndTime.getTime() - Math.max(interval, 1) * 1000);
+        let endTime = new Date();
+        let deployId = this.deployId;
+
+        this.polling = true;
+        try {
+            let response = await this.api.readLiveLogs(this.projectId, deployId, startTime, endTime);
+
+            // The user switched to another deployment while we were waiting
+            if (deployId !== this.deployId) {
+                return;
+            }
+
+            for (let line of response.LiveLogs || []) {
+                this.addLine(line);
+            }
+            this.lastEndTime = endTime;
+        }
+        catch (err) {
+            this.channel.appendLine(`Reading live logs failed: ${err.message}`);
+        }
+        finally {
+            this.polling = false;
+        }
+    }
+
+    private addLine(line: string) {
+        if (this.seen.has(line)) {
+            return;
+        }
+
+        this.seen.add(line);
+        this.lines.push(line);
+
+        if (this.lines.length > MAX_BUFFERED_LINES) {
+            this.seen.delete(this.lines.shift()!);
+        }
+        if (matchesLogFilter(line, this.filter)) {
+            this.channel.appendLine(line);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Language } from './api';
+import { SyncState } from './sync';
+
+/**Directory inside a project folder holding the manifest and local extension data */
+export const MANIFEST_DIRECTORY = '.quantconnect';
+/**Name of the manifest file inside `MANIFEST_DIRECTORY` */
+const MANIFEST_FILE = 'project.json';
+/**Local data written next to the manifest that should not be checked in: local backtests and the git ledger */
+const IGNORED_ENTRIES = ['backtests/', 'ledger.jsonl'];
+
+/**
+ * Binding of a project folder to a QuantConnect cloud project, written to `.quantconnect/project.json`.
+ * The manifest is meant to be checked in with the project so that anyone cloning the repository gets the same binding
+ */
+export interface ProjectManifest {
+    /**Cloud project ID. Undefined until the cloud has created the project */
+    projectId?: number;
+    /**Name of the cloud project */
+    name: string;
+    language: Language;
+    /**Name of the credential profile the project belongs to */
+    profile?: string;
+    /**Determines if this is a QuantConnect Framework project */
+    framework?: boolean;
+    /**Sync state of every file as of its last sync, keyed by cloud file name */
+    files: { [fileName: string]: SyncState };
+}
+
+/**
+ * Get the path of the manifest of a project folder
+ */
+export function getManifestPath(projectPath: string): string {
+    return path.join(projectPath, MANIFEST_DIRECTORY, MANIFEST_FILE);
+}
+
+/**
+ * Read the manifest of a project folder
+ *
+ * @returns Manifest, or undefined if the folder has no valid manifest
+ */
+export function readManifest(projectPath: string): ProjectManifest | undefined {
+    let manifestPath = getManifestPath(projectPath);
+
+    if (!fs.existsSync(manifestPath)) {
+        return;
+    }
+
+    try {
+        let manifest = <ProjectManifest> JSON.parse(fs.readFileSync(manifestPath).toString());
+
+        if (!manifest.name || !manifest.language) {
+            return;
+        }
+        manifest.files = manifest.files || {};
+        return manifest;
+    }
+    catch (err) {
+        console.log(`Unable to read ${manifestPath}: ${err.message}`);
+    }
+}
+
+/**
+ * Write the manifest of a project folder. Files are sorted by name to keep diffs between commits small
+ */
+export function writeManifest(projectPath: string, manifest: ProjectManifest) {
+    let manifestPath = getManifestPath(projectPath);
+    let files: { [fileName: string]: SyncState } = {};
+
+    for (let fileName of Object.keys(manifest.files).sort()) {
+        files[fileName] = manifest.files[fileName];
+    }
+
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify({ ...manifest, files: files }, undefined, 4) + '\n');
+
+    let gitignorePath = path.join(path.dirname(manifestPath), '.gitignore');
+    let ignored = fs.existsSync(gitignorePath) ? fs.readFileSync(gitignorePath).toString() : '';
+    let missing = IGNORED_ENTRIES.filter(entry => ignored.split(/\r?\n/).indexOf(entry) === -1);
+
+    if (missing.length > 0) {
+        let separator = ignored && !ignored.endsWith('\n') ? '\n' : '';
+        fs.writeFileSync(gitignorePath, ignored + separator + missing.join('\n') + '\n');
+    }
+}
+
+/**
+ * Remove the manifest of a project folder, unbinding it from the cloud project. Other files are left untouched
+ */
+export function deleteManifest(projectPath: string) {
+    let manifestPath = getManifestPath(projectPath);
+
+    if (fs.existsSync(manifestPath)) {
+        fs.unlinkSync(manifestPath);
+    }
+}
+
+/**
+ * Find the project folders in a workspace folder: the workspace folder itself and its direct subdirectories
+ *
+ * @returns Paths of the folders that have a manifest
+ */
+export function findProjectFolders(rootPath: string): string[] {
+    let candidates = [rootPath];
+
+    if (fs.existsSync(rootPath)) {
+        for (let entry of fs.readdirSync(rootPath, { withFileTypes: true })) {
+            if (entry.isDirectory() && !entry.name.startsWith('.')) {
+                candidates.push(path.join(rootPath, entry.name));
+            }
+        }
+    }
+    return candidates.filter(candidate => fs.existsSync(getManifestPath(candidate)));
+}
\ No newline at end of file
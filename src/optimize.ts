@@ -0,0 +1,420 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Backtest, BacktestParameters, CompileState, LeanApi, StatisticsKey } from './api';
+import { parseStatistic } from './comparison';
+import { QCAlgorithmProject } from './project';
+import { BacktestResultsPanel } from './results';
+import { escapeHtml, renderDocument } from './webview';
+
+/**File in the project directory holding the parameter grid of a sweep */
+export const OPTIMIZE_FILE = '.qc-optimize.json';
+
+/**Statistics shown for each backtest of a sweep, in column order */
+const SWEEP_STATISTICS: StatisticsKey[] = ['Sharpe Ratio', 'Drawdown', 'Net Profit', 'Compounding Annual Return'];
+/**Column headers of `SWEEP_STATISTICS` */
+const STATISTIC_HEADERS: { [key: string]: string } = {
+    'Sharpe Ratio': 'Sharpe',
+    'Drawdown': 'Drawdown',
+    'Net Profit': 'Net Profit',
+    'Compounding Annual Return': 'CAGR',
+};
+
+/**Evenly spaced values of a parameter, from `min` to `max` inclusive */
+export interface ParameterRange {
+    min: number;
+    max: number;
+    step: number;
+}
+
+/**
+ * Contents of `.qc-optimize.json`. Each parameter is either a list of values or a range, e.g.
+ * `{ "parameters": { "fast": [10, 20], "slow": { "min": 50, "max": 150, "step": 50 } } }`
+ */
+export interface OptimizationConfig {
+    parameters: { [name: string]: (string | number)[] | ParameterRange };
+}
+
+/**One combination of parameter values and the backtest run with it */
+export interface SweepRun {
+    parameters: BacktestParameters;
+    /**Progress of the backtest from 0 to 1. Undefined until it is launched */
+    progress?: number;
+    /**Final state of the backtest. Undefined while it runs */
+    backtest?: Backtest;
+    /**Why the backtest couldn't be launched or read */
+    error?: string;
+}
+
+/**Messages posted by the sweep webview */
+interface SweepMessage {
+    command: 'sort' | 'open';
+    column?: string;
+    index?: number;
+}
+
+/**Runs in the webview. Posts header and button clicks back to the extension */
+const SWEEP_SCRIPT = `
+(function () {
+    const vscode = acquireVsCodeApi();
+
+    document.addEventListener('click', function (event) {
+        const target = event.target;
+        if (target.dataset.sort) {
+            vscode.postMessage({ command: 'sort', column: target.dataset.sort });
+        }
+        if (target.dataset.open) {
+            vscode.postMessage({ command: 'open', index: parseInt(target.dataset.open, 10) });
+        }
+    });
+}());
+`;
+
+/**
+ * List every combination of the parameter values in the grid
+ *
+ * @returns One set of parameter values per backtest to run
+ */
+export function expandParameterGrid(config: OptimizationConfig): BacktestParameters[] {
+    if (!config || !config.parameters || Object.keys(config.parameters).length === 0) {
+        throw new Error(`${OPTIMIZE_FILE} must list at least one parameter under "parameters"`);
+    }
+
+    let combinations: BacktestParameters[] = [{}];
+
+    for (let name of Object.keys(config.parameters)) {
+        let values = getParameterValues(name, config.parameters[name]);
+        let expanded: BacktestParameters[] = [];
+
+        for (let combination of combinations) {
+            for (let value of values) {
+                expanded.push(Object.assign({}, combination, { [name]: value }));
+            }
+        }
+        combinations = expanded;
+    }
+    return combinations;
+}
+
+function getParameterValues(name: string, values: (string | number)[] | ParameterRange): string[] {
+    if (Array.isArray(values)) {
+        if (values.length === 0) {
+            throw new Error(`Parameter "${name}" in ${OPTIMIZE_FILE} has no values`);
+        }
+        return values.map(value => String(value));
+    }
+
+    let range = values;
+    if (typeof range.min !== 'number' || typeof range.max !== 'number' || typeof range.step !== 'number' || range.step <= 0 || range.min > range.max) {
+        throw new Error(`Parameter "${name}" in ${OPTIMIZE_FILE} must be a list of values or a range with a min, max and positive step`);
+    }
+
+    let rangeValues: string[] = [];
+    // Count the steps instead of adding them up so that fractional steps don't accumulate rounding errors
+    for (let i = 0; range.min + i * range.step <= range.max + range.step * 1e-9; i++) {
+        rangeValues.push(String(parseFloat((range.min + i * range.step).toPrecision(12))));
+    }
+    return rangeValues;
+}
+
+/**
+ * Get the number of backtests the project can run at the same time, i.e. the number of backtest nodes
+ * of the user's organization. Falls back to one at a time if the nodes can't be read
+ */
+export async function getSweepConcurrency(api: LeanApi, projectId: number): Promise<number> {
+    try {
+        let response = await api.readProjectNodes(projectId);
+
+        return Math.max(1, response.nodes.backtest.length);
+    }
+    catch (err) {
+        console.log(err);
+        return 1;
+    }
+}
+
+/**
+ * Run one backtest per set of parameter values, at most `concurrency` at a time
+ *
+ * @param compileId Id of a successful compile of the project
+ * @param onUpdate Called every time a backtest of the sweep is launched, makes progress or finishes
+ * @param token Stops launching backtests and polling running ones once cancellation is requested
+ */
+export async function runParameterSweep(
+    project: QCAlgorithmProject,
+    compileId: string,
+    runs: SweepRun[],
+    concurrency: number,
+    onUpdate?: (run: SweepRun) => void,
+    token?: vscode.CancellationToken): Promise<void> {
+
+    let next = 0;
+    let runNext = async () => {
+        while (next < runs.length && !(token && token.isCancellationRequested)) {
+            let run = runs[next++];
+            let backtestName = `${project.projectName} ${formatParameters(run.parameters)}`;
+
+            run.progress = 0;
+            if (onUpdate) {
+                onUpdate(run);
+            }
+
+            try {
+                run.backtest = await project.runBacktest(compileId, backtestName, progress => {
+                    run.progress = progress;
+                    if (onUpdate) {
+                        onUpdate(run);
+                    }
+                }, token, run.parameters);
+            }
+            catch (err) {
+                console.log(err);
+                run.error = err.message;
+            }
+            if (onUpdate) {
+                onUpdate(run);
+            }
+        }
+    };
+
+    let workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(concurrency, runs.length); i++) {
+        workers.push(runNext());
+    }
+    await Promise.all(workers);
+}
+
+function formatParameters(parameters: BacktestParameters): string {
+    return Object.keys(parameters).map(name => `${name}=${parameters[name]}`).join(' ');
+}
+
+/**
+ * Webview listing the backtests of a parameter sweep with their key statistics.
+ * The table is sorted by clicking a column header. One panel is kept per project
+ */
+export class ParameterSweepPanel {
+    /**Open panels keyed by project id */
+    private static panels = new Map<number, ParameterSweepPanel>();
+
+    private panel: vscode.WebviewPanel;
+    private runs: SweepRun[] = [];
+    private parameterNames: string[] = [];
+    private sortColumn?: string;
+    private sortDescending = true;
+
+    private constructor(private project: QCAlgorithmProject) {
+        this.panel = vscode.window.createWebviewPanel(
+            'quantconnect.parameterSweep',
+            `Parameter Sweep: ${project.projectName}`,
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.onDidDispose(() => ParameterSweepPanel.panels.delete(this.project.projectId));
+        this.panel.webview.onDidReceiveMessage((message: SweepMessage) => {
+            this.handleMessage(message).then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        });
+    }
+
+    /**
+     * Entry point of the `extension.runParameterSweep` command.
+     * Reads the parameter grid of the open project, compiles the project and runs a backtest per combination of values
+     */
+    public static runForOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to run a parameter sweep');
+            return;
+        }
+
+        let openProject = project;
+        let combinations: BacktestParameters[];
+
+        try {
+            combinations = ParameterSweepPanel.readParameterGrid(openProject);
+        }
+        catch (err) {
+            vscode.window.showErrorMessage(err.message);
+            return;
+        }
+
+        vscode.window.showWarningMessage(`Run ${combinations.length} backtest(s) of ${openProject.projectName}?`, { modal: true }, 'Run')
+        .then(selection => {
+            if (selection !== 'Run') {
+                return false;
+            }
+
+            return vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Parameter sweep of ${openProject.projectName}`,
+                cancellable: true
+            }, async (progress, token) => {
+                progress.report({ message: 'Syncing project files with the cloud' });
+                await openProject.sync();
+
+                progress.report({ message: 'Compiling' });
+                let compile = await openProject.compile();
+
+                if (compile.state === CompileState.BuildError) {
+                    throw new Error(`${openProject.projectName} failed to compile. See the Problems panel for details`);
+                }
+
+                let concurrency = await getSweepConcurrency(openProject.api, openProject.projectId);
+                let runs: SweepRun[] = combinations.map(parameters => ({ parameters: parameters }));
+                let panel = ParameterSweepPanel.show(openProject, runs);
+                let finished = 0;
+
+                progress.report({ message: `Running ${runs.length} backtest(s), ${concurrency} at a time` });
+                await runParameterSweep(openProject, compile.compileId, runs, concurrency, run => {
+                    if (run.error || run.backtest) {
+                        finished++;
+                        progress.report({ message: `${finished} of ${runs.length} backtest(s) finished`, increment: 100 / runs.length });
+                    }
+                    panel.render();
+                }, token);
+
+                return token.isCancellationRequested;
+            });
+        })
+        .then(cancelled => {
+            if (cancelled) {
+                vscode.window.showInformationMessage('Stopped the parameter sweep. Backtests that were already launched keep running in the cloud');
+            }
+        }, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Show the runs of a sweep, reusing the project's panel if it's already open
+     */
+    public static show(project: QCAlgorithmProject, runs: SweepRun[]): ParameterSweepPanel {
+        let panel = ParameterSweepPanel.panels.get(project.projectId);
+
+        if (!panel) {
+            panel = new ParameterSweepPanel(project);
+            ParameterSweepPanel.panels.set(project.projectId, panel);
+        }
+        panel.runs = runs;
+        panel.parameterNames = runs.length > 0 ? Object.keys(runs[0].parameters) : [];
+        panel.panel.reveal();
+        panel.render();
+        return panel;
+    }
+
+    private static readParameterGrid(project: QCAlgorithmProject): BacktestParameters[] {
+        let configPath = path.join(project.projectPath, OPTIMIZE_FILE);
+
+        if (!fs.existsSync(configPath)) {
+            throw new Error(`Create ${OPTIMIZE_FILE} in ${project.projectName} listing the parameter values to run, e.g. { "parameters": { "fast": [10, 20], "slow": { "min": 50, "max": 150, "step": 50 } } }`);
+        }
+
+        let config: OptimizationConfig;
+        try {
+            config = JSON.parse(fs.readFileSync(configPath).toString());
+        }
+        catch (err) {
+            throw new Error(`${OPTIMIZE_FILE} is not valid JSON: ${err.message}`);
+        }
+        return expandParameterGrid(config);
+    }
+
+    private async handleMessage(message: SweepMessage) {
+        switch (message.command) {
+            case 'sort':
+            if (this.sortColumn === message.column) {
+                this.sortDescending = !this.sortDescending;
+            }
+            else {
+                this.sortColumn = message.column;
+                this.sortDescending = true;
+            }
+            this.render();
+            return;
+
+            case 'open':
+            let run = this.runs[message.index!];
+            if (!run || !run.backtest) {
+                return;
+            }
+            let backtest = run.backtest.result ? run.backtest : await this.project.api.readBacktest(this.project.projectId, run.backtest.backtestId);
+            BacktestResultsPanel.show(backtest, this.project.projectName);
+            return;
+        }
+    }
+
+    /**
+     * Value of a column for sorting. Parameters and statistics are compared as numbers when they parse as one
+     */
+    private getSortValue(run: SweepRun, column: string): number | string | undefined {
+        let value: string | undefined;
+
+        if (this.parameterNames.indexOf(column) !== -1) {
+            value = run.parameters[column];
+        }
+        else if (run.backtest && run.backtest.result) {
+            value = run.backtest.result.Statistics[<StatisticsKey> column];
+        }
+
+        let parsed = parseStatistic(value);
+        return parsed !== undefined ? parsed : value;
+    }
+
+    private getSortedRuns(): { run: SweepRun, index: number }[] {
+        let indexed = this.runs.map((run, index) => ({ run: run, index: index }));
+        let column = this.sortColumn;
+
+        if (!column) {
+            return indexed;
+        }
+
+        return indexed.sort((a, b) => {
+            let valueA = this.getSortValue(a.run, column!);
+            let valueB = this.getSortValue(b.run, column!);
+
+            // Runs without a value go last in either direction
+            if (valueA === undefined || valueB === undefined) {
+                return valueA === valueB ? a.index - b.index : (valueA === undefined ? 1 : -1);
+            }
+            let order = valueA < valueB ? -1 : (valueA > valueB ? 1 : 0);
+            return this.sortDescending ? -order : order;
+        });
+    }
+
+    private render() {
+        let columns = [...this.parameterNames, ...SWEEP_STATISTICS];
+        let headers = columns.map(column => {
+            let label = STATISTIC_HEADERS[column] || column;
+            let arrow = column === this.sortColumn ? (this.sortDescending ? ' &#9660;' : ' &#9650;') : '';
+
+            return `<th data-sort="${escapeHtml(column)}" style="cursor: pointer">${escapeHtml(label)}${arrow}</th>`;
+        });
+
+        let rows = this.getSortedRuns().map(({ run, index }) => {
+            let statistics = run.backtest && run.backtest.result ? run.backtest.result.Statistics : undefined;
+            let status = run.error ? `<span class="error">${escapeHtml(run.error)}</span>`
+                : run.backtest && run.backtest.error ? `<span class="error">${escapeHtml(run.backtest.error)}</span>`
+                : run.backtest && run.backtest.completed ? 'Completed'
+                : run.backtest ? 'Stopped watching'
+                : run.progress !== undefined ? `${Math.floor(run.progress * 100)}%`
+                : 'Queued';
+
+            return `<tr>`
+                + this.parameterNames.map(name => `<td>${escapeHtml(run.parameters[name])}</td>`).join('')
+                + SWEEP_STATISTICS.map(key => `<td>${escapeHtml(statistics ? statistics[key] : '')}</td>`).join('')
+                + `<td>${status}</td>`
+                + `<td>${run.backtest ? `<button data-open="${index}">Open</button>` : ''}</td>`
+                + `</tr>`;
+        });
+
+        let completed = this.runs.filter(run => run.backtest && run.backtest.completed).length;
+        let body = `<p>${completed} of ${this.runs.length} backtest(s) completed. Click a column header to sort</p>`
+            + `<table><thead><tr>${headers.join('')}<th>Status</th><th></th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+
+        this.panel.webview.html = renderDocument(`Parameter Sweep: ${this.project.projectName}`, body, SWEEP_SCRIPT);
+    }
+}
\ No newline at end of file
@@ -1,19 +1,31 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { LeanApi, Language, Project } from './api';
-import { CredentialManager } from './credentials';
-import { Projects } from './extension';
+import { Backtest, BacktestParameters, Compile, CompileState, LeanApi, LeanApiError, Language, Project, ProjectFile } from './api';
+import { CredentialManager, DEFAULT_PROFILE } from './credentials';
+import { CompileProblems, Projects } from './extension';
+import { BacktestResultsPanel } from './results';
+import { GitLedger, readGitInfo } from './git';
+import { deleteManifest, ProjectManifest, writeManifest } from './manifest';
+import { getSyncStatus, hashContent, SyncState, SyncStatus, SyncStore } from './sync';
+import { getTemplates, ProjectTemplate, toClassName } from './templates';
+
+/**Milliseconds to wait between polls of compile and backtest jobs */
+const POLL_INTERVAL = 2000;
+/**Files Windows creates in folders, which are never synced */
+const OS_FILES = ['Thumbs.db', 'desktop.ini'];
 
 /**
  * Represents a QuantConnect project. We manage our local projects through this class.
  * 
- * Note: all our class variables are public so that we can access those values from vscode's globalState
- * In general, we should treat the class variables as if they're private.
+ * The binding to the cloud project is kept in `.quantconnect/project.json` inside the project folder.
+ * We write it whenever the binding or the sync state of a file changes.
  */
 export class QCAlgorithmProject {
-    /**Credential Manager. This is our entry point to the API */
+    /**API instance of the project's profile. This is our entry point to the API */
     public api: LeanApi;
+    /**Name of the credential profile the project belongs to */
+    public profileName: string;
     /**Directory name */
     public projectPath: string;
     /**Project/directory name */
@@ -26,6 +38,18 @@ export class QCAlgorithmProject {
     public files: QCProjectFile[];
     /**Determines if this is a QuantConnect Framework project */
     public frameworkProject?: boolean;
+    /**State of the last compile job. `InQueue` while we wait for a compile */
+    public compileState?: CompileState;
+    /**Progress (0 to 1) of the backtests we're polling, keyed by backtest ID */
+    public runningBacktests = new Map<string, number>();
+
+    private static stateEmitter = new vscode.EventEmitter<QCAlgorithmProject>();
+
+    /**Fired when the sync state of a file, the compile state or the progress of a backtest of a project changes */
+    public static readonly onDidChangeState = QCAlgorithmProject.stateEmitter.event;
+
+    /**Set while we save a whole project ourselves so that the `uploadOnSave` handler stays out of the way */
+    private static savingProject = false;
 
     /**
      * Objectives:
@@ -38,18 +62,26 @@ export class QCAlgorithmProject {
      * @param projectName Name of the project
      * @param language Programming language the project is in
      * @param newProject Determines whether this is a new project. Creates a new project on QuantConnect if true
-     * @param fromGlobalState Determines if we initializing a new object from the global state
-     * @param globalStateInstance instance to initialize new class from
+     * @param fromManifest Determines if we're restoring a project from the manifest in its folder
+     * @param projectId ID of the cloud project, if known
+     * @param profileName Credential profile the project belongs to. Defaults to the active profile
+     * @param template Template to generate the files of a new project from. Uses the cloud's default files if omitted
+     * @param projectPath Folder of the project. Defaults to a folder named after the project in the first local workspace folder
      */
     constructor(context: vscode.ExtensionContext, 
         credManager: CredentialManager,
         projectName: string, 
         language: Language, 
         newProject: boolean,
-        fromGlobalState: boolean,
-        projectId?: number) {
+        fromManifest: boolean,
+        projectId?: number,
+        profileName?: string,
+        template?: ProjectTemplate,
+        projectPath?: string) {
 
-        if (!vscode.workspace.workspaceFolders) {
+        let workspaceFolder = (vscode.workspace.workspaceFolders || []).find(folder => folder.uri.scheme === 'file');
+
+        if (!workspaceFolder) {
             throw new Error('This plugin only works with workspaces. Please start a new workspace and try again');
         }
 
@@ -57,21 +89,20 @@ export class QCAlgorithmProject {
             throw new Error('Credential manager is not initialized');
         }
 
-        let workspaceAsRootPath = vscode.workspace.getConfiguration('quantconnect').get<boolean>('workspaceAsRootPath', false);
         let normalizedProjectName = QCAlgorithmProject.normalizeProjectName(projectName);
-        let projectPath = workspaceAsRootPath ? vscode.workspace.workspaceFolders[0].uri.fsPath : `${vscode.workspace.workspaceFolders[0].uri.fsPath}${path.sep}${normalizedProjectName}`;
 
         if (!normalizedProjectName) {
             throw new Error('The project name you provided only contains special characters and can not be initialized');
         }
 
-        this.api = credManager.api;
+        this.profileName = profileName || credManager.activeProfile || DEFAULT_PROFILE;
+        this.api = credManager.getApi(this.profileName);
         this.files = [];
-        this.projectPath = projectPath;
+        this.projectPath = projectPath || QCAlgorithmProject.getProjectPath(workspaceFolder, projectName);
         this.projectName = projectName;
         this.projectLanguage = language;
 
-        // In the case we're initializing this instance from a global state
+        // In the case we're initializing this instance from a manifest
         if (projectId !== undefined) {
             this.projectId = projectId;
         }
@@ -81,15 +112,8 @@ export class QCAlgorithmProject {
             fs.mkdirSync(this.projectPath);
         }
 
-        if (fromGlobalState) {
-            for (let file of fs.readdirSync(this.projectPath)) {
-                let filePath = `${this.projectPath}${path.sep}${file}`;
-
-                // Skip directories because we cannot have directories or files inside directories in the QuantConnect cloud
-                if (fs.lstatSync(filePath).isDirectory()) {
-                    continue;
-                }
-                
+        if (fromManifest) {
+            for (let filePath of listProjectFiles(this.projectPath)) {
                 let contents = fs.readFileSync(filePath).toString();
                 this.files.push(new QCProjectFile(filePath, contents, false));
             }
@@ -97,16 +121,24 @@ export class QCAlgorithmProject {
         else {
             if (newProject) {
                 // 1. Create a new QuantConnect project
-                // 2. Download project files (no overwrite)
+                // 2. Upload the files of the template, if any
+                // 3. Download project files (no overwrite)
+                this.frameworkProject = template ? template.framework : false;
                 this.api.createProject(this.projectName, this.projectLanguage).then(response => {
                     this.projectId = response.projects[0].projectId;
+                    this.saveManifest();
+                })
+                .then(() => {
+                    if (template) {
+                        return this.uploadTemplate(template);
+                    }
                 })
                 .then(() => {
                     this.downloadProjectFiles();
                 })
-                .catch((err: string) => {
+                .catch((err: Error) => {
                     console.log(err);
-                    vscode.window.showErrorMessage(err);
+                    vscode.window.showErrorMessage(err.message);
                 });
             }
             else {
@@ -137,6 +169,7 @@ export class QCAlgorithmProject {
                         throw new Error('Project is null even though we provided a valid project name');
                     }
                     this.projectId = project.projectId;
+                    this.saveManifest();
                 })
                 .then(() => {
                     if (fs.readdirSync(this.projectPath).length > 0) {
@@ -153,9 +186,9 @@ export class QCAlgorithmProject {
                         this.downloadProjectFiles();
                     }
                 })
-                .catch((err: string) => {
+                .catch((err: Error) => {
                     console.log(err);
-                    vscode.window.showErrorMessage(err);
+                    vscode.window.showErrorMessage(err.message);
                 });
             }
         }
@@ -169,11 +202,72 @@ export class QCAlgorithmProject {
     }
 
     /**
-     * Create a new QCAlgorithmProject from an object stored in the global state
-     * @param project Project state with no access to methods or private variables
+     * Get the folder a project goes in within a workspace folder. This is the workspace folder itself
+     * if the `workspaceAsRootPath` setting is enabled, or a folder named after the project otherwise
      */
-    public static fromGlobalState(context: vscode.ExtensionContext, credManager: CredentialManager, project: QCAlgorithmProject): QCAlgorithmProject {
-        return new QCAlgorithmProject(context, credManager, project.projectName, project.projectLanguage, false, true, project.projectId);
+    public static getProjectPath(workspaceFolder: vscode.WorkspaceFolder, projectName: string): string {
+        let workspaceAsRootPath = vscode.workspace.getConfiguration('quantconnect').get<boolean>('workspaceAsRootPath', false);
+
+        if (workspaceAsRootPath) {
+            return workspaceFolder.uri.fsPath;
+        }
+        return path.join(workspaceFolder.uri.fsPath, QCAlgorithmProject.normalizeProjectName(projectName));
+    }
+
+    /**
+     * Ask the user which workspace folder to put a project in. Doesn't ask if the workspace has a single folder
+     *
+     * @returns Workspace folder, or undefined if the user cancelled
+     */
+    public static async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        // Cloud projects opened through the `qc://` file system can't hold local projects
+        let folders = (vscode.workspace.workspaceFolders || []).filter(folder => folder.uri.scheme === 'file');
+
+        if (folders.length === 0) {
+            throw new Error('This plugin only works with workspaces. Please start a new workspace and try again');
+        }
+        if (folders.length === 1) {
+            return folders[0];
+        }
+
+        let selection = await vscode.window.showQuickPick(folders.map(folder => ({
+            label: folder.name,
+            description: folder.uri.fsPath,
+            folder: folder
+        })), {
+            placeHolder: 'Select the workspace folder to put the project in',
+            ignoreFocusOut: true
+        });
+        return selection ? selection.folder : undefined;
+    }
+
+    /**
+     * Restore a project from the manifest found in its folder
+     * @param projectPath Folder the manifest was found in
+     * @param manifest Contents of the manifest
+     */
+    public static fromManifest(context: vscode.ExtensionContext, credManager: CredentialManager, projectPath: string, manifest: ProjectManifest): QCAlgorithmProject {
+        let instance = new QCAlgorithmProject(context, credManager, manifest.name, manifest.language, false, true, manifest.projectId, manifest.profile, undefined, projectPath);
+
+        instance.frameworkProject = manifest.framework;
+        instance.restoreSyncState(manifest.files);
+        return instance;
+    }
+
+    /**
+     * Replace the default files of a newly created cloud project with the files of a template
+     */
+    private async uploadTemplate(template: ProjectTemplate) {
+        let response = await this.api.readProjectFiles(this.projectId);
+
+        for (let file of template.createFiles(toClassName(this.projectName))) {
+            if (response.files.some(cloudFile => cloudFile.name === file.name)) {
+                await this.api.updateProjectFileContent(this.projectId, file.name, file.content);
+            }
+            else {
+                await this.api.addProjectFile(this.projectId, file.name, file.content);
+            }
+        }
     }
 
     /**
@@ -190,6 +284,7 @@ export class QCAlgorithmProject {
             }
             let projectName: string;
             let selectedLanguage: Language;
+            let selectedTemplate: ProjectTemplate;
 
             if (credManager === undefined) {
                 vscode.window.showErrorMessage('You are not connected to the QuantConnect API');
@@ -228,54 +323,76 @@ export class QCAlgorithmProject {
                         default:
                         return;
                     }
+
+                    return vscode.window.showQuickPick(getTemplates(selectedLanguage).map(template => ({
+                        label: template.label,
+                        description: template.description,
+                        template: template
+                    })), {
+                        placeHolder: 'Select a template for your project'
+                    });
                 })
-                .then(() => {
-                    if (!projectName || !selectedLanguage) {
+                .then(templateItem => {
+                    if (!projectName || !selectedLanguage || !templateItem) {
+                        return;
+                    }
+                    selectedTemplate = templateItem.template;
+
+                    return QCAlgorithmProject.pickWorkspaceFolder();
+                })
+                .then(folder => {
+                    if (!folder || !selectedTemplate) {
                         return;
                     }
-                    Projects.push(new QCAlgorithmProject(context, credManager, projectName, selectedLanguage, true, false));
-                    context.globalState.update('quantconnectProjects', Projects);
+                    let projectPath = QCAlgorithmProject.getProjectPath(folder, projectName);
+
+                    Projects.push(new QCAlgorithmProject(context, credManager, projectName, selectedLanguage, true, false, undefined, undefined, selectedTemplate, projectPath));
                     vscode.window.showInformationMessage('Project successfully created');
                 })
-                .then(undefined, (err: string) => {
+                .then(undefined, (err: Error) => {
                     console.log(err);
-                    vscode.window.showErrorMessage(err);
+                    vscode.window.showErrorMessage(err.message);
                 });
             }
             else if (selectOrCreate === 'Download') {
+                let selection: string[] | undefined;
+
                 credManager.api.listProjects().then(response => {
-                    if (!response.success) {
-                        vscode.window.showErrorMessage(`Listing projects was unsuccessful. Reason(s): ${JSON.stringify(response.errors)}`);
-                        return;
-                    }
-                    vscode.window.showQuickPick(response.projects.map(project => `${project.language.toString()} - ${project.name}`), {
+                    return vscode.window.showQuickPick(response.projects.map(project => `${project.language.toString()} - ${project.name}`), {
                         'canPickMany': true,
                         'ignoreFocusOut': true,
                         'placeHolder': 'Select projects to import'
-                    })
-                    .then(selection => {
-                        if (!selection) {
-                            return;
-                        }
-                        for (let selected of selection) {
-                            let projectName = selected.substring(5);
-                            let language = <Language> selected.substring(0, 2);
-
-                            Projects.push(new QCAlgorithmProject(context, credManager, projectName, language, false, false));
-                            context.globalState.update('quantconnectProjects', Projects);
-                            return;
-                        }
                     });
                 })
-                .catch((err: string) => {
+                .then(selected => {
+                    selection = selected;
+                    if (!selection || selection.length === 0) {
+                        return;
+                    }
+                    return QCAlgorithmProject.pickWorkspaceFolder();
+                })
+                .then(folder => {
+                    if (!selection || !folder) {
+                        return;
+                    }
+                    for (let selected of selection) {
+                        let projectName = selected.substring(5);
+                        let language = <Language> selected.substring(0, 2);
+                        let projectPath = QCAlgorithmProject.getProjectPath(folder, projectName);
+
+                        Projects.push(new QCAlgorithmProject(context, credManager, projectName, language, false, false, undefined, undefined, undefined, projectPath));
+                        return;
+                    }
+                })
+                .catch((err: Error) => {
                     console.log(err);
-                    vscode.window.showErrorMessage(err);
+                    vscode.window.showErrorMessage(err.message);
                 });
             }
         })
-        .then(undefined, (err: string) => {
+        .then(undefined, (err: Error) => {
             console.log(err);
-            vscode.window.showErrorMessage(err);
+            vscode.window.showErrorMessage(err.message);
         });
     }
 
@@ -302,9 +419,9 @@ export class QCAlgorithmProject {
                 }).projectId;
             }
         })
-        .catch(err => {
+        .catch((err: Error) => {
             console.log(err);
-            vscode.window.showErrorMessage(err);
+            vscode.window.showErrorMessage(err.message);
         });
 
         if (projectId === undefined) {
@@ -320,6 +437,9 @@ export class QCAlgorithmProject {
      * Will prompt the user for confirmation to avoid accidental saving
      */
     public static saveFileChangesToCloud() {
+        if (QCAlgorithmProject.savingProject) {
+            return;
+        }
         let project = QCAlgorithmProject.getOpenProject();
         let file = QCAlgorithmProject.getOpenFile(project);
 
@@ -349,8 +469,6 @@ export class QCAlgorithmProject {
 
         for (let file of project.files) {
             project.saveFileToCloud(file);
-            // Let's treat the API gently...
-            setTimeout(() => {}, 1000);
         }
     }
 
@@ -367,22 +485,39 @@ export class QCAlgorithmProject {
         let editor = vscode.window.activeTextEditor;
         let doc = editor.document;
 
-        if (doc.isUntitled) {
+        // Untitled documents and cloud files opened through the `qc://` file system don't belong to a local project
+        if (doc.isUntitled || doc.uri.scheme !== 'file') {
             return;
         }
 
-        let filePath = doc.fileName;
-        let splitDir = doc.fileName.split(path.sep);
-        let projectPathSplit = [];
+        return QCAlgorithmProject.getProjectByPath(doc.fileName);
+    }
+
+    /**
+     * Find the project a file on disk belongs to. Files can be at any depth inside the project directory.
+     * If project directories are nested, the file belongs to the innermost project
+     *
+     * @returns QCAlgorithmProject or undefined if the file isn't part of any project
+     */
+    public static getProjectByPath(filePath: string): QCAlgorithmProject | undefined {
+        let owner: QCAlgorithmProject | undefined;
 
-        for (let i = 0; i < splitDir.length - 1; i++) {
-            projectPathSplit.push(splitDir[i]);
+        for (let project of Projects) {
+            if (project.containsPath(filePath) && (!owner || project.projectPath.length > owner.projectPath.length)) {
+                owner = project;
+            }
         }
+        return owner;
+    }
 
-        let projectPath = projectPathSplit.join(path.sep);
-
+    /**
+     * Find a local project by its cloud project id
+     *
+     * @returns QCAlgorithmProject or undefined if the project hasn't been downloaded
+     */
+    public static getProjectById(projectId: number): QCAlgorithmProject | undefined {
         for (let project of Projects) {
-            if (project.projectPath === projectPath) {
+            if (project.projectId === projectId) {
                 return project;
             }
         }
@@ -404,6 +539,211 @@ export class QCAlgorithmProject {
         }
     }
 
+    /**
+     * Rename a project file on disk after it has been renamed in the cloud
+     *
+     * @param oldName Current name of the file in the cloud
+     * @param newName New name of the file in the cloud
+     */
+    public renameLocalFile(oldName: string, newName: string) {
+        let oldPath = this.getFilePath(oldName);
+        let newPath = this.getFilePath(newName);
+
+        if (fs.existsSync(oldPath)) {
+            fs.mkdirSync(path.dirname(newPath), { recursive: true });
+            fs.renameSync(oldPath, newPath);
+        }
+        for (let file of this.files) {
+            if (file.filePath === oldPath) {
+                file.filePath = newPath;
+            }
+        }
+        this.saveManifest();
+    }
+
+    /**
+     * Bind the project to another credential profile
+     */
+    public setProfile(credManager: CredentialManager, profileName: string) {
+        this.profileName = profileName;
+        this.api = credManager.getApi(profileName);
+        this.saveManifest();
+    }
+
+    /**
+     * Entry point of the `extension.selectProjectProfile` command.
+     * Lets the user pick the credential profile the currently open project belongs to
+     */
+    public static selectProfileForOpenProject(credManager: CredentialManager) {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to select its profile');
+            return;
+        }
+
+        let openProject = project;
+        return credManager.pickProfile(`Profile of ${openProject.projectName}: ${openProject.profileName}`).then(profileName => {
+            if (!profileName) {
+                return;
+            }
+            openProject.setProfile(credManager, profileName);
+            vscode.window.showInformationMessage(`${openProject.projectName} now uses the "${profileName}" profile`);
+        });
+    }
+
+    /**
+     * Values kept in the manifest. Paths are left out so that the project folder can be moved or cloned elsewhere
+     */
+    public toManifest(): ProjectManifest {
+        let files: { [fileName: string]: SyncState } = {};
+
+        for (let file of this.files) {
+            if (file.syncedHash !== undefined) {
+                files[this.getFileName(file.filePath)] = { syncedHash: file.syncedHash, cloudModified: file.cloudModified };
+            }
+        }
+
+        return {
+            projectId: this.projectId,
+            name: this.projectName,
+            language: this.projectLanguage,
+            profile: this.profileName,
+            framework: this.frameworkProject,
+            files: files
+        };
+    }
+
+    /**
+     * Write the manifest to the project folder
+     */
+    public saveManifest() {
+        writeManifest(this.projectPath, this.toManifest());
+    }
+
+    /**
+     * Remove the manifest from the project folder so that the folder is no longer restored as a project
+     */
+    public deleteManifest() {
+        deleteManifest(this.projectPath);
+    }
+
+    /**
+     * Find a project file by its path on disk
+     */
+    public getFileByPath(filePath: string): QCProjectFile | undefined {
+        for (let file of this.files) {
+            if (file.filePath === filePath) {
+                return file;
+            }
+        }
+    }
+
+    /**
+     * Get the cloud name of a file on disk. Files in subdirectories are named by their slash-separated path, e.g. `models/alpha.py`
+     */
+    public getFileName(filePath: string): string {
+        return path.relative(this.projectPath, filePath).split(path.sep).join('/');
+    }
+
+    /**
+     * Get the path on disk of a cloud file
+     */
+    public getFilePath(fileName: string): string {
+        return path.join(this.projectPath, ...fileName.split('/'));
+    }
+
+    /**
+     * Check whether a path on disk is inside the project directory and not in one of the hidden directories we skip
+     */
+    public containsPath(filePath: string): boolean {
+        let relativePath = path.relative(this.projectPath, filePath);
+
+        if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+            return false;
+        }
+        return !relativePath.split(path.sep).slice(0, -1).some(isHiddenDirectory);
+    }
+
+    /**
+     * Start tracking a file that was created locally and create it in the cloud
+     *
+     * @param filePath Path of the new file. Must be inside the project directory
+     */
+    public async addLocalFile(filePath: string) {
+        let file = new QCProjectFile(filePath, fs.readFileSync(filePath).toString(), false);
+
+        this.files.push(file);
+        await this.createCloudFile(file);
+    }
+
+    /**
+     * Stop tracking a file that was deleted locally and optionally delete it from the cloud
+     *
+     * @param file File that no longer exists on disk
+     * @param deleteFromCloud Whether to also delete the file from the cloud.
+     * If false, the file will be downloaded again on the next sync
+     */
+    public async removeLocalFile(file: QCProjectFile, deleteFromCloud: boolean) {
+        let fileName = this.getFileName(file.filePath);
+
+        this.files.splice(this.files.indexOf(file), 1);
+        this.saveManifest();
+        QCAlgorithmProject.stateEmitter.fire(this);
+        if (!deleteFromCloud) {
+            return;
+        }
+
+        await this.api.deleteProjectFile(this.projectId, fileName);
+    }
+
+    /**
+     * Bring the tracked files in line with the disk after something other than the user changed them, such as a git checkout.
+     * Nothing is changed in the cloud: new and modified files are left unsynced for the next sync to upload
+     *
+     * @returns Files that were tracked but no longer exist on disk
+     */
+    public reconcileWithDisk(): QCProjectFile[] {
+        let removed = this.files.filter(file => !fs.existsSync(file.filePath));
+
+        this.files = this.files.filter(file => removed.indexOf(file) === -1);
+        for (let file of this.files) {
+            file.reloadFileFromDisk();
+            file.synced = file.syncedHash !== undefined && hashContent(file.content) === file.syncedHash;
+        }
+
+        for (let filePath of listProjectFiles(this.projectPath)) {
+            let owner = QCAlgorithmProject.getProjectByPath(filePath);
+
+            // Files of projects nested in this one belong to them
+            if ((!owner || owner === this) && !this.getFileByPath(filePath)) {
+                this.files.push(new QCProjectFile(filePath, fs.readFileSync(filePath).toString(), false));
+            }
+        }
+
+        this.saveManifest();
+        QCAlgorithmProject.stateEmitter.fire(this);
+        return removed;
+    }
+
+    /**
+     * Rename a file in the cloud after it has been renamed on disk
+     *
+     * @param file File as it was before the rename
+     * @param newPath Path of the file after the rename
+     */
+    public async moveLocalFile(file: QCProjectFile, newPath: string) {
+        let oldName = this.getFileName(file.filePath);
+        let newName = this.getFileName(newPath);
+
+        file.filePath = newPath;
+
+        await this.api.updateProjectFileName(this.projectId, oldName, newName);
+
+        // The file may have been edited before it was renamed, so we can't assume it's still in sync
+        await this.syncFile(file, await this.readCloudFile(newName));
+    }
+
     /**
      * Download a single project file to the project's root
      * 
@@ -417,66 +757,509 @@ export class QCAlgorithmProject {
             }
             let projectFile = new QCProjectFile(project.files[0].name, project.files[0].content, true);
         })
-        .catch((err: string) => {
+        .catch((err: Error) => {
             console.log(err);
         });
     }
 
     private saveFileToCloud(projectFile: QCProjectFile) {
         projectFile.reloadFileFromDisk();
-        let fileName = path.basename(projectFile.filePath);
+        let fileName = this.getFileName(projectFile.filePath);
 
         if (vscode.workspace.getConfiguration('quantconnect').get<boolean>('uploadSkipDialog')) {
-            this.api.updateProjectFileContent(this.projectId, fileName, projectFile.content).then(response => {
-                if (response.success) {
-                    vscode.window.showInformationMessage('File saved to cloud successfully');
-                    projectFile.synced = true;
-                    return;
-                }
-                vscode.window.showErrorMessage(`File cloud save failed. Reason(s): ${JSON.stringify(response.errors)}`);
-            });
+            this.uploadFileAndCheckForErrors(projectFile, fileName);
             return;
         }
 
         vscode.window.showInformationMessage(`Are you sure you want to save ${fileName} to the cloud?`, 'No', 'Yes').then(selection => {
             if (selection === 'Yes') {
-                this.api.updateProjectFileContent(this.projectId, fileName, projectFile.content).then(response => {
-                    if (response.success) {
-                        vscode.window.showInformationMessage('File saved to cloud successfully');
-                        projectFile.synced = true;
-                        return;
-                    }
-                    vscode.window.showErrorMessage(`File cloud save failed. Reason(s): ${JSON.stringify(response.errors)}`);
-                });
+                this.uploadFileAndCheckForErrors(projectFile, fileName);
+            }
+        });
+    }
+
+    /**
+     * Sync a single file with the cloud and compile the project so that any errors show up in the Problems panel
+     */
+    private uploadFileAndCheckForErrors(projectFile: QCProjectFile, fileName: string) {
+        this.readCloudFile(fileName).then(cloudFile => {
+            return this.syncFile(projectFile, cloudFile);
+        })
+        .then(status => {
+            switch (status) {
+                case undefined:
+                vscode.window.showWarningMessage(`${fileName} was not saved to the cloud because of a conflict`);
+                return;
+
+                case SyncStatus.CloudChanged:
+                vscode.window.showInformationMessage(`${fileName} was changed in the cloud. The local file has been updated`);
+                break;
+
+                default:
+                vscode.window.showInformationMessage('File saved to cloud successfully');
+            }
+
+            return this.compile().then(compile => {
+                if (compile.state === CompileState.BuildError) {
+                    vscode.window.showErrorMessage(`${this.projectName} failed to compile. See the Problems panel for details`);
+                }
+            });
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Save every dirty editor belonging to the project without triggering the `uploadOnSave` handler
+     */
+    public async saveDirtyDocuments() {
+        let dirtyDocuments = vscode.workspace.textDocuments.filter(doc => {
+            return doc.isDirty && this.files.some(file => file.filePath === doc.fileName);
+        });
+
+        // Keep the `uploadOnSave` handler from prompting for each of the documents we save here
+        QCAlgorithmProject.savingProject = true;
+        try {
+            for (let doc of dirtyDocuments) {
+                await doc.save();
+            }
+        }
+        finally {
+            QCAlgorithmProject.savingProject = false;
+        }
+    }
+
+    /**
+     * Two-way sync of the whole project. Every dirty editor belonging to the project is saved first.
+     * Local changes are uploaded, cloud changes are downloaded, files that only exist in the cloud
+     * are created locally, and the user is asked to resolve files that changed on both sides.
+     * No confirmation dialog is shown since the caller has explicitly asked for the project to be synced.
+     *
+     * @returns Promise that rejects if any of the files failed to sync or a conflict was skipped
+     */
+    public async sync(): Promise<void> {
+        await this.saveDirtyDocuments();
+
+        let response = await this.api.readProjectFiles(this.projectId);
+
+        let skipped: string[] = [];
+        for (let cloudFile of response.files) {
+            let file = this.getFile(cloudFile.name);
+
+            if (!file || !fs.existsSync(file.filePath)) {
+                this.writeCloudFile(cloudFile);
+                continue;
+            }
+            if (await this.syncFile(file, cloudFile) === undefined) {
+                skipped.push(cloudFile.name);
+            }
+        }
+
+        // Files we have locally but that don't exist in the cloud yet
+        for (let file of this.files) {
+            let fileName = this.getFileName(file.filePath);
+
+            if (fs.existsSync(file.filePath) && !response.files.some(cloudFile => cloudFile.name === fileName)) {
+                await this.syncFile(file);
+            }
+        }
+
+        if (skipped.length > 0) {
+            throw new Error(`Sync was not completed because of unresolved conflicts in: ${skipped.join(', ')}`);
+        }
+    }
+
+    /**
+     * Entry point of the `extension.syncProject` command
+     */
+    public static syncOpenProject() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to sync it with the cloud');
+            return;
+        }
+
+        let openProject = project;
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Syncing ${openProject.projectName} with the cloud`
+        }, () => openProject.sync())
+        .then(() => {
+            vscode.window.showInformationMessage(`${openProject.projectName} is in sync with the cloud`);
+        }, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    /**
+     * Restore the sync state of files from the manifest
+     *
+     * @param files Sync state of the files, keyed by cloud file name
+     */
+    public restoreSyncState(files: { [fileName: string]: SyncState }) {
+        for (let file of this.files) {
+            let state = files[this.getFileName(file.filePath)];
+
+            if (state) {
+                file.syncedHash = state.syncedHash;
+                file.cloudModified = state.cloudModified;
+            }
+            file.synced = file.syncedHash !== undefined && hashContent(file.content) === file.syncedHash;
+        }
+    }
+
+    /**
+     * Check whether a file saved locally still has the content it had at its last sync
+     */
+    public updateSyncedFlag(file: QCProjectFile) {
+        file.reloadFileFromDisk();
+        file.synced = file.syncedHash !== undefined && hashContent(file.content) === file.syncedHash;
+        QCAlgorithmProject.stateEmitter.fire(this);
+    }
+
+    /**
+     * Files that changed locally since they were last synced with the cloud
+     */
+    public getUnsyncedFiles(): QCProjectFile[] {
+        return this.files.filter(file => !file.isSyncedToCloud);
+    }
+
+    /**
+     * Bring a single file in line with the cloud. Uploads local changes, downloads cloud changes
+     * and asks the user to resolve files that changed on both sides
+     *
+     * @param file Local file. Reloaded from disk before comparing
+     * @param cloudFile Current cloud version of the file, or undefined if it doesn't exist in the cloud
+     *
+     * @returns Which side had changed, or undefined if the user skipped a conflict
+     */
+    private async syncFile(file: QCProjectFile, cloudFile?: ProjectFile): Promise<SyncStatus | undefined> {
+        file.reloadFileFromDisk();
+
+        if (!cloudFile) {
+            await this.createCloudFile(file);
+            return SyncStatus.LocalChanged;
+        }
+
+        let status = getSyncStatus(file, file.content, cloudFile);
+        switch (status) {
+            case SyncStatus.InSync:
+            this.recordSync(file, cloudFile.modified);
+            return status;
+
+            case SyncStatus.LocalChanged:
+            await this.uploadFile(file);
+            return status;
+
+            case SyncStatus.CloudChanged:
+            this.writeCloudFile(cloudFile);
+            return status;
+
+            case SyncStatus.Conflict:
+            let resolution = await SyncStore.resolveConflict(this.projectId, file.filePath, cloudFile);
+
+            if (resolution === 'local') {
+                file.reloadFileFromDisk();
+                await this.uploadFile(file);
+                return status;
+            }
+            if (resolution === 'cloud') {
+                this.writeCloudFile(cloudFile);
+                return status;
+            }
+            return;
+        }
+    }
+
+    /**
+     * Overwrite the cloud file with the local content and record the new sync state
+     */
+    private async uploadFile(file: QCProjectFile) {
+        let fileName = this.getFileName(file.filePath);
+        await this.api.updateProjectFileContent(this.projectId, fileName, file.content);
+
+        // Read the file back to learn the modification time the cloud gave it
+        let cloudFile = await this.readCloudFile(fileName);
+        this.recordSync(file, cloudFile ? cloudFile.modified : undefined);
+        await this.recordUpload(fileName);
+    }
+
+    /**
+     * Create a file that doesn't exist in the cloud yet with the local content and record the new sync state
+     */
+    private async createCloudFile(file: QCProjectFile) {
+        let fileName = this.getFileName(file.filePath);
+        await this.api.addProjectFile(this.projectId, fileName, file.content);
+
+        let cloudFile = await this.readCloudFile(fileName);
+        this.recordSync(file, cloudFile ? cloudFile.modified : undefined);
+        await this.recordUpload(fileName);
+    }
+
+    /**
+     * Record the git commit a file was uploaded from in the ledger
+     */
+    private async recordUpload(fileName: string) {
+        try {
+            await GitLedger.recordUpload(this, fileName);
+        }
+        catch (err) {
+            // The file is in the cloud either way, so a failure to record its commit isn't worth failing the upload for
+            console.log(err);
+        }
+    }
+
+    /**
+     * Write a cloud file to disk, overwriting any local copy, and record the sync state
+     */
+    private writeCloudFile(cloudFile: ProjectFile) {
+        let file = this.getFile(cloudFile.name);
+
+        if (!file) {
+            file = new QCProjectFile(this.getFilePath(cloudFile.name), cloudFile.content, true);
+            this.files.push(file);
+        }
+        file.content = cloudFile.content;
+        file.createFileOverwrite();
+        this.recordSync(file, cloudFile.modified);
+    }
+
+    /**
+     * Remember the content and cloud modification time of a file we just synced
+     */
+    private recordSync(file: QCProjectFile, cloudModified: Date | undefined) {
+        let fileName = this.getFileName(file.filePath);
+
+        file.syncedHash = hashContent(file.content);
+        file.cloudModified = cloudModified === undefined ? undefined : String(cloudModified);
+        file.synced = true;
+        SyncStore.saveBase(this.projectId, fileName, file.content);
+        this.saveManifest();
+        QCAlgorithmProject.stateEmitter.fire(this);
+    }
+
+    /**
+     * Read a single file from the cloud
+     *
+     * @returns The cloud file, or undefined if it doesn't exist in the cloud
+     */
+    private async readCloudFile(fileName: string): Promise<ProjectFile | undefined> {
+        try {
+            let response = await this.api.readProjectFile(this.projectId, fileName);
+
+            return response.files.find(file => file.name === fileName);
+        }
+        catch (err) {
+            if (err instanceof LeanApiError && err.isFileNotFound) {
+                return;
+            }
+            throw err;
+        }
+    }
+
+    /**
+     * Find a project file by its cloud file name
+     */
+    private getFile(fileName: string): QCProjectFile | undefined {
+        return this.getFileByPath(this.getFilePath(fileName));
+    }
+
+    /**
+     * Compile the project in the cloud and wait for the compile job to leave the queue.
+     * Problems found by the compiler are published to the Problems panel
+     *
+     * @returns Finished compile job. Check `state` to see if the build succeeded
+     */
+    public async compile(): Promise<Compile> {
+        let compile: Compile;
+        this.setCompileState(CompileState.InQueue);
+
+        try {
+            compile = await this.api.createCompile(this.projectId);
+
+            while (compile.state === CompileState.InQueue) {
+                await sleep(POLL_INTERVAL);
+                compile = await this.api.readCompile(this.projectId, compile.compileId);
             }
+        }
+        catch (err) {
+            this.setCompileState(undefined);
+            throw err;
+        }
+
+        this.setCompileState(compile.state);
+        if (CompileProblems) {
+            CompileProblems.publish(this, compile);
+        }
+        return compile;
+    }
+
+    /**
+     * Launch a backtest from a successful compile and poll it until it completes.
+     * If the project is in a git repository, the commit it's at is recorded in the backtest's note and in the ledger
+     *
+     * @param compileId Id of a successful compile job
+     * @param backtestName Name to give to the new backtest
+     * @param onProgress Called with the backtest's progress (0 to 1) every time we poll it
+     * @param token Stops polling the backtest once cancellation is requested
+     * @param parameters Values of the algorithm's parameters. The project's defaults are used when omitted
+     *
+     * @returns Final state of the backtest
+     */
+    public async runBacktest(compileId: string, backtestName: string, onProgress?: (progress: number) => void, token?: vscode.CancellationToken, parameters?: BacktestParameters): Promise<Backtest> {
+        let commit = await readGitInfo(this.projectPath);
+        let backtest = await this.api.createBacktest(this.projectId, compileId, backtestName, parameters);
+        let backtestId = backtest.backtestId;
+
+        try {
+            await GitLedger.recordBacktest(this, backtest, commit);
+        }
+        catch (err) {
+            // The backtest runs either way, so a failure to record its commit isn't worth interrupting it for
+            console.log(err);
+        }
+
+        this.setBacktestProgress(backtestId, backtest.progress || 0);
+        try {
+            while (!backtest.completed) {
+                if (token && token.isCancellationRequested) {
+                    break;
+                }
+                await sleep(POLL_INTERVAL);
+                backtest = await this.api.readBacktest(this.projectId, backtestId);
+                this.setBacktestProgress(backtestId, backtest.progress);
+                if (onProgress) {
+                    onProgress(backtest.progress);
+                }
+            }
+        }
+        finally {
+            this.setBacktestProgress(backtestId, undefined);
+        }
+
+        return backtest;
+    }
+
+    private setCompileState(state: CompileState | undefined) {
+        this.compileState = state;
+        QCAlgorithmProject.stateEmitter.fire(this);
+    }
+
+    /**
+     * Track the progress of a backtest we're polling. Pass undefined once we stop polling it
+     */
+    private setBacktestProgress(backtestId: string, progress: number | undefined) {
+        if (progress === undefined) {
+            this.runningBacktests.delete(backtestId);
+        }
+        else {
+            this.runningBacktests.set(backtestId, progress);
+        }
+        QCAlgorithmProject.stateEmitter.fire(this);
+    }
+
+    /**
+     * Save all files in the currently open project, compile the project and run a backtest.
+     * Progress of the backtest is shown in a notification
+     */
+    public static backtest() {
+        let project = QCAlgorithmProject.getOpenProject();
+
+        if (!project) {
+            vscode.window.showErrorMessage('You must have a project open in order to run a backtest');
+            return;
+        }
+
+        let openProject = project;
+        let backtestName = `${openProject.projectName} ${new Date().toISOString()}`;
+
+        vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Backtesting ${openProject.projectName}`,
+            cancellable: true
+        }, async (progress, token) => {
+            progress.report({ message: 'Syncing project files with the cloud' });
+            await openProject.sync();
+
+            progress.report({ message: 'Compiling' });
+            let compile = await openProject.compile();
+
+            if (compile.state === CompileState.BuildError) {
+                throw new Error(`${openProject.projectName} failed to compile. See the Problems panel for details`);
+            }
+
+            let lastProgress = 0;
+            progress.report({ message: 'Waiting for backtest to start' });
+
+            return openProject.runBacktest(compile.compileId, backtestName, backtestProgress => {
+                let percent = Math.floor(backtestProgress * 100);
+
+                progress.report({ message: `${percent}%`, increment: percent - lastProgress });
+                lastProgress = percent;
+            }, token);
+        })
+        .then(backtest => {
+            if (!backtest.completed) {
+                vscode.window.showInformationMessage(`Stopped watching backtest '${backtest.name}'. It will keep running in the cloud`);
+                return;
+            }
+            if (backtest.error) {
+                vscode.window.showErrorMessage(`Backtest '${backtest.name}' failed: ${backtest.error}`);
+                return;
+            }
+
+            let statistics = backtest.result ? backtest.result.Statistics : undefined;
+            let summary = statistics ? ` Net Profit: ${statistics['Net Profit']}, Sharpe Ratio: ${statistics['Sharpe Ratio']}, Drawdown: ${statistics['Drawdown']}` : '';
+
+            vscode.window.showInformationMessage(`Backtest '${backtest.name}' completed.${summary}`);
+            BacktestResultsPanel.show(backtest, openProject.projectName);
+        }, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
         });
     }
 
     /**
      * Downloads project files. Will optionally overwrite files.
-     * If no overwrite, the call to `createFile()` will not do anything
+     * If no overwrite, the project is synced and the user is asked about files that differ from the cloud
      */
     private downloadProjectFiles(overwrite: boolean = false) {
-        this.api.readProjectFiles(this.projectId).then(project => {
-            for (let file of project.files) {
-                let projectFile = new QCProjectFile(`${this.projectPath}${path.sep}${file.name}`, file.content, true);
-                if (overwrite) {
-                    projectFile.createFileOverwrite();
-                }
-                else {
-                    projectFile.createFile();
+        if (!overwrite) {
+            // Track the files already on disk without a sync state, so that files the cloud also has become conflicts
+            // instead of being overwritten, and files only we have are uploaded
+            for (let filePath of listProjectFiles(this.projectPath)) {
+                if (!this.getFileByPath(filePath)) {
+                    this.files.push(new QCProjectFile(filePath, fs.readFileSync(filePath).toString(), false));
                 }
+            }
 
-                this.files.push(projectFile);
+            this.sync().catch((err: Error) => {
+                vscode.window.showErrorMessage(err.message);
+            });
+            return;
+        }
+
+        this.api.readProjectFiles(this.projectId).then(project => {
+            for (let file of project.files) {
+                this.writeCloudFile(file);
             }
         })
-        .catch((err: string) => {
-            vscode.window.showErrorMessage(err);
+        .catch((err: Error) => {
+            vscode.window.showErrorMessage(err.message);
         });
     }
 }
 
-export class QCProjectFile {
+export class QCProjectFile implements SyncState {
+    /**SHA-256 of the content at the last sync with the cloud */
+    public syncedHash?: string;
+    /**Cloud modification time of the file at the last sync */
+    public cloudModified?: string;
+
     constructor(
         public filePath: string,
         public content: string,
@@ -487,11 +1270,12 @@ export class QCProjectFile {
         if (fs.existsSync(this.filePath)) {
             return false;
         }
-        fs.writeFileSync(this.filePath, this.content);
+        this.createFileOverwrite();
         return true;
     }
 
     public createFileOverwrite() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
         fs.writeFileSync(this.filePath, this.content);
     }
 
@@ -502,4 +1286,46 @@ export class QCProjectFile {
     public get isSyncedToCloud(): boolean {
         return this.synced;
     }
+}
+
+/**
+ * Directories starting with a dot hold editor, git and extension state (e.g. `.quantconnect`, `.vscode`) and are never synced
+ */
+function isHiddenDirectory(name: string): boolean {
+    return name.startsWith('.');
+}
+
+/**
+ * Hidden files (e.g. `.gitignore`, `.DS_Store`) and files the operating system puts in folders are never synced
+ */
+export function isIgnoredFile(name: string): boolean {
+    return name.startsWith('.') || OS_FILES.indexOf(name) !== -1;
+}
+
+/**
+ * List the paths of all files in a project directory and its subdirectories, skipping hidden directories and ignored files
+ */
+export function listProjectFiles(directory: string): string[] {
+    let files: string[] = [];
+
+    for (let entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        let entryPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory()) {
+            if (!isHiddenDirectory(entry.name)) {
+                files.push(...listProjectFiles(entryPath));
+            }
+        }
+        else if (entry.isFile() && !isIgnoredFile(entry.name)) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Resolve after the given amount of milliseconds. Used to space out our polling of the API
+ */
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
 }
\ No newline at end of file
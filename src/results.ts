@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { Backtest, BacktestResult, ChartPoint } from './api';
+import { escapeHtml, renderCard, renderDocument, renderKeyValueTable, renderLineChart } from './webview';
+
+/**
+ * Get the equity curve of a backtest from the `Strategy Equity` chart
+ *
+ * @returns Equity points sorted by time. Empty if the result has no equity chart
+ */
+export function getEquityCurve(result: BacktestResult | undefined): ChartPoint[] {
+    if (!result || !result.Charts || !result.Charts['Strategy Equity']) {
+        return [];
+    }
+    let series = result.Charts['Strategy Equity'].Series['Equity'];
+
+    if (!series || !series.Values) {
+        return [];
+    }
+    return series.Values.slice().sort((a, b) => a.x - b.x);
+}
+
+/**
+ * Get the drawdown curve of a backtest in percent.
+ * Uses LEAN's `Drawdown` chart if present, otherwise it is calculated from the equity curve
+ */
+export function getDrawdownCurve(result: BacktestResult | undefined): ChartPoint[] {
+    if (result && result.Charts && result.Charts['Drawdown']) {
+        let series = result.Charts['Drawdown'].Series['Equity Drawdown'];
+
+        if (series && series.Values) {
+            return series.Values.slice().sort((a, b) => a.x - b.x);
+        }
+    }
+
+    let peak = -Infinity;
+    return getEquityCurve(result).map(point => {
+        peak = Math.max(peak, point.y);
+        return { x: point.x, y: peak > 0 ? (point.y - peak) / peak * 100 : 0 };
+    });
+}
+
+/**
+ * Webview panel rendering the statistics and charts of a backtest.
+ * Only one panel is kept open per backtest
+ */
+export class BacktestResultsPanel {
+    /**Open panels keyed by backtest id */
+    private static panels = new Map<string, BacktestResultsPanel>();
+
+    private panel: vscode.WebviewPanel;
+
+    private constructor(private backtest: Backtest, private projectName: string) {
+        this.panel = vscode.window.createWebviewPanel(
+            'quantconnect.backtestResults',
+            `Backtest: ${backtest.name}`,
+            vscode.ViewColumn.Beside,
+            { enableScripts: false }
+        );
+        this.panel.onDidDispose(() => BacktestResultsPanel.panels.delete(this.backtest.backtestId));
+        this.render();
+    }
+
+    /**
+     * Show the results of a backtest, reusing its panel if it's already open
+     *
+     * @param backtest Completed backtest, including its `result`
+     * @param projectName Name of the project the backtest belongs to
+     */
+    public static show(backtest: Backtest, projectName: string) {
+        let existing = BacktestResultsPanel.panels.get(backtest.backtestId);
+
+        if (existing) {
+            existing.backtest = backtest;
+            existing.render();
+            existing.panel.reveal();
+            return;
+        }
+        BacktestResultsPanel.panels.set(backtest.backtestId, new BacktestResultsPanel(backtest, projectName));
+    }
+
+    private render() {
+        let backtest = this.backtest;
+        let result = backtest.result;
+        let body: string[] = [`<p>Project: ${escapeHtml(this.projectName)} &middot; Created: ${escapeHtml(backtest.created)}</p>`];
+
+        if (backtest.error) {
+            body.push(`<pre class="error">${escapeHtml(backtest.error)}\n${escapeHtml(backtest.stacktrace || '')}</pre>`);
+        }
+
+        if (!result) {
+            body.push('<p>This backtest has no results yet</p>');
+            this.panel.webview.html = renderDocument(backtest.name, body.join('\n'));
+            return;
+        }
+
+        body.push(renderLineChart('Equity', [{ name: 'Equity', points: getEquityCurve(result) }]));
+        body.push(renderLineChart('Drawdown (%)', [{ name: 'Drawdown', points: getDrawdownCurve(result), color: '#f14c4c' }]));
+        body.push(renderKeyValueTable('Statistics', result.Statistics));
+        body.push(renderKeyValueTable('Runtime Statistics', result.RuntimeStatistics));
+
+        if (result.TotalPerformance) {
+            body.push(renderCard('Portfolio Statistics', result.TotalPerformance.PortfolioStatistics));
+            body.push(renderCard('Trade Statistics', result.TotalPerformance.TradeStatistics));
+        }
+
+        this.panel.webview.html = renderDocument(backtest.name, body.join('\n'));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { CompileState } from './api';
+import { CredManager } from './extension';
+import { QCAlgorithmProject, QCProjectFile } from './project';
+
+/**A command offered in the quick pick shown when clicking the status bar */
+interface StatusMenuItem extends vscode.QuickPickItem {
+    command: string;
+}
+
+/**Text and tooltip of the status bar item */
+export interface ProjectStatus {
+    text: string;
+    tooltip: string;
+}
+
+/**
+ * Describe the state of a project: files not synced with the cloud, the last compile and running backtests
+ *
+ * @param project Project to describe
+ * @param file File open in the editor, if it belongs to the project
+ */
+export function getProjectStatus(project: QCAlgorithmProject, file?: QCProjectFile): ProjectStatus {
+    let location = file ? `${project.projectName}/${project.getFileName(file.filePath)}` : project.projectName;
+    let text = [`QuantConnect [${project.profileName}]: ${project.projectLanguage} - ${location}`];
+    let tooltip: string[] = [];
+
+    let unsynced = project.getUnsyncedFiles();
+    if (unsynced.length > 0) {
+        text.push(`$(cloud-upload) ${unsynced.length}`);
+        tooltip.push(`Not synced with the cloud: ${unsynced.map(unsyncedFile => project.getFileName(unsyncedFile.filePath)).join(', ')}`);
+    }
+    else {
+        text.push('$(cloud)');
+        tooltip.push('All files are synced with the cloud');
+    }
+
+    switch (project.compileState) {
+        case CompileState.InQueue:
+        text.push('$(gear~spin)');
+        tooltip.push('Compiling');
+        break;
+
+        case CompileState.BuildSuccess:
+        text.push('$(check)');
+        tooltip.push('Last compile succeeded');
+        break;
+
+        case CompileState.BuildError:
+        text.push('$(error)');
+        tooltip.push('Last compile failed. See the Problems panel for details');
+        break;
+    }
+
+    let progress = Array.from(project.runningBacktests.values());
+    if (progress.length > 0) {
+        let percent = Math.floor(progress.reduce((sum, value) => sum + value, 0) / progress.length * 100);
+        let backtests = progress.length === 1 ? 'Backtest' : `${progress.length} backtests`;
+
+        text.push(`$(sync~spin) ${percent}%`);
+        tooltip.push(`${backtests} running: ${percent}%`);
+    }
+
+    tooltip.push('Click for QuantConnect commands');
+    return { text: text.join(' '), tooltip: tooltip.join('\n') };
+}
+
+/**
+ * Shows the open project in the status bar, with its sync, compile and backtest state.
+ * Clicking the item opens a quick pick of the commands that apply to the project
+ */
+export class ProjectStatusBar {
+    private static item?: vscode.StatusBarItem;
+
+    private constructor() {}
+
+    public static register(context: vscode.ExtensionContext) {
+        let item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+
+        item.command = 'extension.showStatusMenu';
+        ProjectStatusBar.item = item;
+
+        context.subscriptions.push(item);
+        context.subscriptions.push(vscode.commands.registerCommand('extension.showStatusMenu', () => ProjectStatusBar.showMenu()));
+        context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(() => ProjectStatusBar.update()));
+        context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+            let project = QCAlgorithmProject.getProjectByPath(document.fileName);
+            let file = project ? project.getFileByPath(document.fileName) : undefined;
+
+            if (project && file) {
+                project.updateSyncedFlag(file);
+            }
+        }));
+        context.subscriptions.push(QCAlgorithmProject.onDidChangeState(project => {
+            if (project === QCAlgorithmProject.getOpenProject()) {
+                ProjectStatusBar.update();
+            }
+        }));
+
+        ProjectStatusBar.update();
+    }
+
+    /**
+     * Show the state of the currently open project
+     */
+    public static update() {
+        let item = ProjectStatusBar.item;
+        if (!item) {
+            return;
+        }
+
+        let project = QCAlgorithmProject.getOpenProject();
+        if (!project) {
+            item.text = `QuantConnect [${CredManager.activeProfile || 'signed out'}]: No project selected`;
+            item.tooltip = 'Click for QuantConnect commands';
+        }
+        else {
+            let status = getProjectStatus(project, QCAlgorithmProject.getOpenFile(project));
+
+            item.text = status.text;
+            item.tooltip = status.tooltip;
+        }
+        item.show();
+    }
+
+    /**
+     * Entry point of the `extension.showStatusMenu` command
+     */
+    public static showMenu() {
+        let items = ProjectStatusBar.getMenuItems(QCAlgorithmProject.getOpenProject());
+
+        vscode.window.showQuickPick(items, { placeHolder: 'QuantConnect' }).then(selection => {
+            if (selection) {
+                return vscode.commands.executeCommand(selection.command);
+            }
+        })
+        .then(undefined, (err: Error) => {
+            console.log(err);
+            vscode.window.showErrorMessage(err.message);
+        });
+    }
+
+    private static getMenuItems(project: QCAlgorithmProject | undefined): StatusMenuItem[] {
+        if (!project) {
+            return [
+                { label: '$(add) Create or download a project', command: 'extension.createOrDownloadProject' },
+                { label: '$(account) Switch account', command: 'extension.switchAccount' },
+                { label: '$(sign-in) Sign in', command: 'extension.signIn' }
+            ];
+        }
+
+        let unsynced = project.getUnsyncedFiles().length;
+        let items: StatusMenuItem[] = [
+            { label: '$(sync) Sync project with the cloud', description: unsynced > 0 ? `${unsynced} unsynced` : undefined, command: 'extension.syncProject' }
+        ];
+
+        if (QCAlgorithmProject.getOpenFile(project)) {
+            items.push({ label: '$(cloud-upload) Save file to the cloud and check for errors', command: 'extension.saveFileChangesToCloud' });
+        }
+        if (project.compileState === CompileState.BuildError) {
+            items.push({ label: '$(error) Show build errors', command: 'workbench.actions.view.problems' });
+        }
+
+        items.push(
+            { label: '$(play) Save and run backtest', command: 'extension.backtest' },
+            { label: '$(vm) Run backtest locally', command: 'extension.backtestLocally' },
+            { label: '$(history) Show backtest history', command: 'extension.showBacktestHistory' },
+            { label: '$(account) Select the account profile of the project', description: project.profileName, command: 'extension.selectProjectProfile' }
+        );
+        return items;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,174 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProjectFile } from './api';
+
+/**URI scheme of the read-only cloud and base documents shown in conflict diffs */
+const SYNC_SCHEME = 'quantconnect-sync';
+
+/**State of a file compared to the last time it was synced */
+export enum SyncStatus {
+    /**Local and cloud contents are identical */
+    InSync = 'in sync',
+    /**Only the local file changed since the last sync */
+    LocalChanged = 'local changed',
+    /**Only the cloud file changed since the last sync */
+    CloudChanged = 'cloud changed',
+    /**Both the local and the cloud file changed since the last sync */
+    Conflict = 'conflict',
+}
+
+/**What we know about a file as of its last sync */
+export interface SyncState {
+    /**SHA-256 of the content at the last sync */
+    syncedHash?: string;
+    /**`ProjectFile.modified` reported by the cloud at the last sync */
+    cloudModified?: string;
+}
+
+/**
+ * Hash file contents so that we can detect local changes without keeping a copy of the file
+ */
+export function hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Work out which side changed since the last sync.
+ * Files that were never synced are only in sync if both sides have the same content
+ *
+ * @param state Sync state recorded for the file
+ * @param localContent Current local content
+ * @param cloudFile Current cloud file
+ */
+export function getSyncStatus(state: SyncState, localContent: string, cloudFile: ProjectFile): SyncStatus {
+    if (localContent === cloudFile.content) {
+        return SyncStatus.InSync;
+    }
+
+    let localChanged = state.syncedHash === undefined || hashContent(localContent) !== state.syncedHash;
+    let cloudChanged = state.cloudModified === undefined || String(cloudFile.modified) !== state.cloudModified;
+
+    if (localChanged && cloudChanged) {
+        return SyncStatus.Conflict;
+    }
+    return localChanged ? SyncStatus.LocalChanged : SyncStatus.CloudChanged;
+}
+
+/**
+ * Keeps the content of every file as of its last sync so that conflicts can be shown as a three-way diff,
+ * and serves the cloud and base versions of files to the diff editor.
+ */
+export class SyncStore implements vscode.TextDocumentContentProvider {
+    /**Directory holding the last synced content of every file. Undefined when VSCode gives us no storage */
+    private static storagePath?: string;
+    /**Documents served to the diff editor, keyed by URI path */
+    private static documents = new Map<string, string>();
+    private static changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    public readonly onDidChange = SyncStore.changeEmitter.event;
+
+    /**
+     * Register the content provider for the diff editor and set up storage for base versions
+     */
+    public static register(context: vscode.ExtensionContext) {
+        if (context.storagePath) {
+            SyncStore.storagePath = path.join(context.storagePath, 'sync');
+        }
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(SYNC_SCHEME, new SyncStore()));
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return SyncStore.documents.get(uri.path) || '';
+    }
+
+    /**
+     * Remember the content a file had when it was last synced
+     */
+    public static saveBase(projectId: number, fileName: string, content: string) {
+        let basePath = SyncStore.getBasePath(projectId, fileName);
+
+        if (!basePath) {
+            return;
+        }
+        fs.mkdirSync(path.dirname(basePath), { recursive: true });
+        fs.writeFileSync(basePath, content);
+    }
+
+    /**
+     * Get the content a file had when it was last synced
+     *
+     * @returns Content, or undefined if we have no record of the file
+     */
+    public static readBase(projectId: number, fileName: string): string | undefined {
+        let basePath = SyncStore.getBasePath(projectId, fileName);
+
+        if (!basePath || !fs.existsSync(basePath)) {
+            return;
+        }
+        return fs.readFileSync(basePath).toString();
+    }
+
+    /**
+     * Ask the user how to resolve a file that changed both locally and in the cloud.
+     * "Compare" opens the changes made on each side since the last sync, then asks again
+     *
+     * @param projectId Project the file belongs to
+     * @param localPath Path of the local file
+     * @param cloudFile Current cloud version of the file
+     *
+     * @returns Which side to keep, or undefined if the user skipped the file
+     */
+    public static async resolveConflict(projectId: number, localPath: string, cloudFile: ProjectFile): Promise<'local' | 'cloud' | undefined> {
+        let message = `${cloudFile.name} was changed both locally and in the cloud since the last sync`;
+        let selection = await vscode.window.showWarningMessage(message, 'Compare', 'Keep Local', 'Keep Cloud');
+
+        if (selection === 'Compare') {
+            await SyncStore.showDiff(projectId, localPath, cloudFile);
+            selection = await vscode.window.showWarningMessage(`${message}. Save any edits to the local file before keeping it`, 'Keep Local', 'Keep Cloud');
+        }
+
+        if (selection === 'Keep Local') {
+            return 'local';
+        }
+        if (selection === 'Keep Cloud') {
+            return 'cloud';
+        }
+    }
+
+    /**
+     * Open the changes of both sides against the last synced version.
+     * Without a base version, the cloud file is compared directly against the local file
+     */
+    private static async showDiff(projectId: number, localPath: string, cloudFile: ProjectFile) {
+        let localUri = vscode.Uri.file(localPath);
+        let cloudUri = SyncStore.addDocument(`/${projectId}/cloud/${cloudFile.name}`, cloudFile.content);
+        let base = SyncStore.readBase(projectId, cloudFile.name);
+
+        if (base === undefined) {
+            await vscode.commands.executeCommand('vscode.diff', cloudUri, localUri, `${cloudFile.name} (Cloud ↔ Local)`);
+            return;
+        }
+
+        let baseUri = SyncStore.addDocument(`/${projectId}/base/${cloudFile.name}`, base);
+        await vscode.commands.executeCommand('vscode.diff', baseUri, cloudUri, `${cloudFile.name} (Last Sync ↔ Cloud)`, { preview: false });
+        await vscode.commands.executeCommand('vscode.diff', baseUri, localUri, `${cloudFile.name} (Last Sync ↔ Local)`, { preview: false });
+    }
+
+    private static addDocument(uriPath: string, content: string): vscode.Uri {
+        let uri = vscode.Uri.parse(`${SYNC_SCHEME}:${uriPath}`);
+
+        SyncStore.documents.set(uriPath, content);
+        // Refresh the document in case an older version of it is still open
+        SyncStore.changeEmitter.fire(uri);
+        return uri;
+    }
+
+    private static getBasePath(projectId: number, fileName: string): string | undefined {
+        if (!SyncStore.storagePath) {
+            return;
+        }
+        return path.join(SyncStore.storagePath, String(projectId), encodeURIComponent(fileName));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,621 @@
+import { Language } from './api';
+
+/**A file generated by a project template */
+export interface TemplateFile {
+    name: string;
+    content: string;
+}
+
+/**Starting point for a new project */
+export interface ProjectTemplate {
+    label: string;
+    description: string;
+    /**Whether the algorithm is built from Algorithm Framework models */
+    framework: boolean;
+    /**
+     * Generate the files of the project
+     *
+     * @param className Name of the algorithm class, derived from the project name
+     */
+    createFiles(className: string): TemplateFile[];
+}
+
+/**
+ * Turn a project name into a valid class name, e.g. "my first algo" becomes "MyFirstAlgo"
+ */
+export function toClassName(projectName: string): string {
+    let className = projectName
+        .split(/[^a-zA-Z0-9]+/)
+        .filter(word => word.length > 0)
+        .map(word => word.charAt(0).toUpperCase() + word.substring(1))
+        .join('');
+
+    if (!className) {
+        return 'Algorithm';
+    }
+    return /^[0-9]/.test(className) ? `Algorithm${className}` : className;
+}
+
+const PYTHON_TEMPLATES: ProjectTemplate[] = [
+    {
+        label: 'Basic equity algorithm',
+        description: 'Buys and holds SPY',
+        framework: false,
+        createFiles: className => [{ name: 'main.py', content: `from AlgorithmImports import *
+
+
+class ${className}(QCAlgorithm):
+
+    def Initialize(self):
+        self.SetStartDate(2018, 1, 1)
+        self.SetEndDate(2019, 1, 1)
+        self.SetCash(100000)
+        self.spy = self.AddEquity("SPY", Resolution.Minute).Symbol
+
+    def OnData(self, data):
+        if not self.Portfolio.Invested:
+            self.SetHoldings(self.spy, 1)
+` }]
+    },
+    {
+        label: 'Algorithm Framework',
+        description: 'Universe selection, alpha, portfolio construction, execution and risk management models',
+        framework: true,
+        createFiles: className => [
+            { name: 'main.py', content: `from AlgorithmImports import *
+from alpha import MomentumAlphaModel
+
+
+class ${className}(QCAlgorithm):
+
+    def Initialize(self):
+        self.SetStartDate(2018, 1, 1)
+        self.SetEndDate(2019, 1, 1)
+        self.SetCash(100000)
+
+        self.UniverseSettings.Resolution = Resolution.Daily
+        symbols = [Symbol.Create(ticker, SecurityType.Equity, Market.USA) for ticker in ["SPY", "TLT", "GLD"]]
+
+        self.SetUniverseSelection(ManualUniverseSelectionModel(symbols))
+        self.SetAlpha(MomentumAlphaModel())
+        self.SetPortfolioConstruction(EqualWeightingPortfolioConstructionModel())
+        self.SetExecution(ImmediateExecutionModel())
+        self.SetRiskManagement(MaximumDrawdownPercentPerSecurity(0.05))
+` },
+            { name: 'alpha.py', content: `from AlgorithmImports import *
+
+
+class MomentumAlphaModel(AlphaModel):
+    '''Predicts that securities with positive momentum go up and securities with negative momentum go down'''
+
+    def __init__(self, period = 20, resolution = Resolution.Daily):
+        self.period = period
+        self.resolution = resolution
+        self.momentum = {}
+
+    def Update(self, algorithm, data):
+        insights = []
+
+        for symbol, indicator in self.momentum.items():
+            if indicator.IsReady and data.ContainsKey(symbol):
+                direction = InsightDirection.Up if indicator.Current.Value > 0 else InsightDirection.Down
+                insights.append(Insight.Price(symbol, timedelta(days = 1), direction))
+
+        return insights
+
+    def OnSecuritiesChanged(self, algorithm, changes):
+        for security in changes.AddedSecurities:
+            self.momentum[security.Symbol] = algorithm.MOMP(security.Symbol, self.period, self.resolution)
+
+        for security in changes.RemovedSecurities:
+            self.momentum.pop(security.Symbol, None)
+` }
+        ]
+    },
+    {
+        label: 'Options',
+        description: 'Buys the nearest at-the-money SPY call',
+        framework: false,
+        createFiles: className => [{ name: 'main.py', content: `from AlgorithmImports import *
+
+
+class ${className}(QCAlgorithm):
+
+    def Initialize(self):
+        self.SetStartDate(2018, 1, 1)
+        self.SetEndDate(2018, 3, 1)
+        self.SetCash(100000)
+
+        option = self.AddOption("SPY")
+        option.SetFilter(-5, 5, timedelta(0), timedelta(30))
+        self.optionSymbol = option.Symbol
+
+    def OnData(self, data):
+        if self.Portfolio.Invested:
+            return
+
+        chain = data.OptionChains.GetValue(self.optionSymbol)
+        if chain is None:
+            return
+
+        calls = [contract for contract in chain if contract.Right == OptionRight.Call]
+        if len(calls) == 0:
+            return
+
+        contract = sorted(calls, key = lambda call: (call.Expiry, abs(chain.Underlying.Price - call.Strike)))[0]
+        self.MarketOrder(contract.Symbol, 1)
+` }]
+    },
+    {
+        label: 'Futures',
+        description: 'Buys the front month E-mini S&P 500 contract',
+        framework: false,
+        createFiles: className => [{ name: 'main.py', content: `from AlgorithmImports import *
+
+
+class ${className}(QCAlgorithm):
+
+    def Initialize(self):
+        self.SetStartDate(2018, 1, 1)
+        self.SetEndDate(2018, 3, 1)
+        self.SetCash(1000000)
+
+        future = self.AddFuture(Futures.Indices.SP500EMini)
+        future.SetFilter(timedelta(0), timedelta(182))
+
+    def OnData(self, data):
+        if self.Portfolio.Invested:
+            return
+
+        for chain in data.FutureChains:
+            contracts = sorted(chain.Value, key = lambda contract: contract.Expiry)
+            if len(contracts) > 0:
+                self.MarketOrder(contracts[0].Symbol, 1)
+                return
+` }]
+    },
+    {
+        label: 'Crypto',
+        description: 'Holds BTCUSD in a GDAX cash account',
+        framework: false,
+        createFiles: className => [{ name: 'main.py', content: `from AlgorithmImports import *
+
+
+class ${className}(QCAlgorithm):
+
+    def Initialize(self):
+        self.SetStartDate(2018, 1, 1)
+        self.SetEndDate(2019, 1, 1)
+        self.SetCash(100000)
+
+        self.SetBrokerageModel(BrokerageName.GDAX, AccountType.Cash)
+        self.btc = self.AddCrypto("BTCUSD", Resolution.Hour).Symbol
+
+    def OnData(self, data):
+        if not self.Portfolio.Invested:
+            self.SetHoldings(self.btc, 0.5)
+` }]
+    },
+];
+
+const CSHARP_TEMPLATES: ProjectTemplate[] = [
+    {
+        label: 'Basic equity algorithm',
+        description: 'Buys and holds SPY',
+        framework: false,
+        createFiles: className => [{ name: 'Main.cs', content: `using QuantConnect.Data;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    public class ${className} : QCAlgorithm
+    {
+        private Symbol _spy;
+
+        public override void Initialize()
+        {
+            SetStartDate(2018, 1, 1);
+            SetEndDate(2019, 1, 1);
+            SetCash(100000);
+
+            _spy = AddEquity("SPY", Resolution.Minute).Symbol;
+        }
+
+        public override void OnData(Slice data)
+        {
+            if (!Portfolio.Invested)
+            {
+                SetHoldings(_spy, 1);
+            }
+        }
+    }
+}
+` }]
+    },
+    {
+        label: 'Algorithm Framework',
+        description: 'Universe selection, alpha, portfolio construction, execution and risk management models',
+        framework: true,
+        createFiles: className => [
+            { name: 'Main.cs', content: `using System.Linq;
+using QuantConnect.Algorithm.Framework.Execution;
+using QuantConnect.Algorithm.Framework.Portfolio;
+using QuantConnect.Algorithm.Framework.Risk;
+using QuantConnect.Algorithm.Framework.Selection;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    public class ${className} : QCAlgorithm
+    {
+        public override void Initialize()
+        {
+            SetStartDate(2018, 1, 1);
+            SetEndDate(2019, 1, 1);
+            SetCash(100000);
+
+            UniverseSettings.Resolution = Resolution.Daily;
+            var symbols = new[] { "SPY", "TLT", "GLD" }.Select(ticker => QuantConnect.Symbol.Create(ticker, SecurityType.Equity, Market.USA));
+
+            SetUniverseSelection(new ManualUniverseSelectionModel(symbols));
+            SetAlpha(new MomentumAlphaModel());
+            SetPortfolioConstruction(new EqualWeightingPortfolioConstructionModel());
+            SetExecution(new ImmediateExecutionModel());
+            SetRiskManagement(new MaximumDrawdownPercentPerSecurity(0.05m));
+        }
+    }
+}
+` },
+            { name: 'Alpha.cs', content: `using System;
+using System.Collections.Generic;
+using QuantConnect.Algorithm.Framework.Alphas;
+using QuantConnect.Data;
+using QuantConnect.Data.UniverseSelection;
+using QuantConnect.Indicators;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    /// <summary>
+    /// Predicts that securities with positive momentum go up and securities with negative momentum go down
+    /// </summary>
+    public class MomentumAlphaModel : AlphaModel
+    {
+        private readonly int _period;
+        private readonly Resolution _resolution;
+        private readonly Dictionary<Symbol, MomentumPercent> _momentum = new Dictionary<Symbol, MomentumPercent>();
+
+        public MomentumAlphaModel(int period = 20, Resolution resolution = Resolution.Daily)
+        {
+            _period = period;
+            _resolution = resolution;
+        }
+
+        public override IEnumerable<Insight> Update(QCAlgorithm algorithm, Slice data)
+        {
+            foreach (var pair in _momentum)
+            {
+                if (pair.Value.IsReady && data.ContainsKey(pair.Key))
+                {
+                    var direction = pair.Value.Current.Value > 0 ? InsightDirection.Up : InsightDirection.Down;
+                    yield return Insight.Price(pair.Key, TimeSpan.FromDays(1), direction);
+                }
+            }
+        }
+
+        public override void OnSecuritiesChanged(QCAlgorithm algorithm, SecurityChanges changes)
+        {
+            foreach (var security in changes.AddedSecurities)
+            {
+                _momentum[security.Symbol] = algorithm.MOMP(security.Symbol, _period, _resolution);
+            }
+            foreach (var security in changes.RemovedSecurities)
+            {
+                _momentum.Remove(security.Symbol);
+            }
+        }
+    }
+}
+` }
+        ]
+    },
+    {
+        label: 'Options',
+        description: 'Buys the nearest at-the-money SPY call',
+        framework: false,
+        createFiles: className => [{ name: 'Main.cs', content: `using System;
+using System.Linq;
+using QuantConnect.Data;
+using QuantConnect.Data.Market;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    public class ${className} : QCAlgorithm
+    {
+        private Symbol _optionSymbol;
+
+        public override void Initialize()
+        {
+            SetStartDate(2018, 1, 1);
+            SetEndDate(2018, 3, 1);
+            SetCash(100000);
+
+            var option = AddOption("SPY");
+            option.SetFilter(-5, 5, TimeSpan.Zero, TimeSpan.FromDays(30));
+            _optionSymbol = option.Symbol;
+        }
+
+        public override void OnData(Slice data)
+        {
+            OptionChain chain;
+
+            if (Portfolio.Invested || !data.OptionChains.TryGetValue(_optionSymbol, out chain))
+            {
+                return;
+            }
+
+            var contract = chain
+                .Where(call => call.Right == OptionRight.Call)
+                .OrderBy(call => call.Expiry)
+                .ThenBy(call => Math.Abs(chain.Underlying.Price - call.Strike))
+                .FirstOrDefault();
+
+            if (contract != null)
+            {
+                MarketOrder(contract.Symbol, 1);
+            }
+        }
+    }
+}
+` }]
+    },
+    {
+        label: 'Futures',
+        description: 'Buys the front month E-mini S&P 500 contract',
+        framework: false,
+        createFiles: className => [{ name: 'Main.cs', content: `using System;
+using System.Linq;
+using QuantConnect.Data;
+using QuantConnect.Securities;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    public class ${className} : QCAlgorithm
+    {
+        public override void Initialize()
+        {
+            SetStartDate(2018, 1, 1);
+            SetEndDate(2018, 3, 1);
+            SetCash(1000000);
+
+            var future = AddFuture(Futures.Indices.SP500EMini);
+            future.SetFilter(TimeSpan.Zero, TimeSpan.FromDays(182));
+        }
+
+        public override void OnData(Slice data)
+        {
+            if (Portfolio.Invested)
+            {
+                return;
+            }
+
+            foreach (var chain in data.FutureChains)
+            {
+                var contract = chain.Value.OrderBy(futuresContract => futuresContract.Expiry).FirstOrDefault();
+
+                if (contract != null)
+                {
+                    MarketOrder(contract.Symbol, 1);
+                    return;
+                }
+            }
+        }
+    }
+}
+` }]
+    },
+    {
+        label: 'Crypto',
+        description: 'Holds BTCUSD in a GDAX cash account',
+        framework: false,
+        createFiles: className => [{ name: 'Main.cs', content: `using QuantConnect.Brokerages;
+using QuantConnect.Data;
+
+namespace QuantConnect.Algorithm.CSharp
+{
+    public class ${className} : QCAlgorithm
+    {
+        private Symbol _btc;
+
+        public override void Initialize()
+        {
+            SetStartDate(2018, 1, 1);
+            SetEndDate(2019, 1, 1);
+            SetCash(100000);
+
+            SetBrokerageModel(BrokerageName.GDAX, AccountType.Cash);
+            _btc = AddCrypto("BTCUSD", Resolution.Hour).Symbol;
+        }
+
+        public override void OnData(Slice data)
+        {
+            if (!Portfolio.Invested)
+            {
+                SetHoldings(_btc, 0.5m);
+            }
+        }
+    }
+}
+` }]
+    },
+];
+
+const FSHARP_TEMPLATES: ProjectTemplate[] = [
+    {
+        label: 'Basic equity algorithm',
+        description: 'Buys and holds SPY',
+        framework: false,
+        createFiles: className => [{ name: 'Main.fs', content: `namespace QuantConnect.Algorithm.FSharp
+
+open QuantConnect
+open QuantConnect.Algorithm
+open QuantConnect.Data
+
+type ${className}() =
+    inherit QCAlgorithm()
+
+    let mutable spy = Unchecked.defaultof<Symbol>
+
+    override this.Initialize() =
+        this.SetStartDate(2018, 1, 1)
+        this.SetEndDate(2019, 1, 1)
+        this.SetCash(100000)
+        spy <- this.AddEquity("SPY", Resolution.Minute).Symbol
+
+    override this.OnData(data: Slice) =
+        if not this.Portfolio.Invested then
+            this.SetHoldings(spy, 1m)
+` }]
+    },
+    {
+        label: 'Algorithm Framework',
+        description: 'Universe selection, alpha, portfolio construction, execution and risk management models',
+        framework: true,
+        createFiles: className => [{ name: 'Main.fs', content: `namespace QuantConnect.Algorithm.FSharp
+
+open QuantConnect
+open QuantConnect.Algorithm
+open QuantConnect.Algorithm.Framework.Alphas
+open QuantConnect.Algorithm.Framework.Execution
+open QuantConnect.Algorithm.Framework.Portfolio
+open QuantConnect.Algorithm.Framework.Risk
+open QuantConnect.Algorithm.Framework.Selection
+
+type ${className}() =
+    inherit QCAlgorithm()
+
+    override this.Initialize() =
+        this.SetStartDate(2018, 1, 1)
+        this.SetEndDate(2019, 1, 1)
+        this.SetCash(100000)
+
+        this.UniverseSettings.Resolution <- Resolution.Daily
+        let symbols = [ "SPY"; "TLT"; "GLD" ] |> List.map (fun ticker -> Symbol.Create(ticker, SecurityType.Equity, Market.USA))
+
+        this.SetUniverseSelection(ManualUniverseSelectionModel(symbols))
+        this.SetAlpha(EmaCrossAlphaModel(50, 200, Resolution.Daily))
+        this.SetPortfolioConstruction(EqualWeightingPortfolioConstructionModel())
+        this.SetExecution(ImmediateExecutionModel())
+        this.SetRiskManagement(MaximumDrawdownPercentPerSecurity(0.05m))
+` }]
+    },
+    {
+        label: 'Options',
+        description: 'Buys the nearest at-the-money SPY call',
+        framework: false,
+        createFiles: className => [{ name: 'Main.fs', content: `namespace QuantConnect.Algorithm.FSharp
+
+open System
+open QuantConnect
+open QuantConnect.Algorithm
+open QuantConnect.Data
+
+type ${className}() =
+    inherit QCAlgorithm()
+
+    let mutable optionSymbol = Unchecked.defaultof<Symbol>
+
+    override this.Initialize() =
+        this.SetStartDate(2018, 1, 1)
+        this.SetEndDate(2018, 3, 1)
+        this.SetCash(100000)
+
+        let option = this.AddOption("SPY")
+        option.SetFilter(-5, 5, TimeSpan.Zero, TimeSpan.FromDays(30.0))
+        optionSymbol <- option.Symbol
+
+    override this.OnData(data: Slice) =
+        if not this.Portfolio.Invested then
+            match data.OptionChains.TryGetValue(optionSymbol) with
+            | true, chain ->
+                chain
+                |> Seq.filter (fun call -> call.Right = OptionRight.Call)
+                |> Seq.sortBy (fun call -> call.Expiry, abs (chain.Underlying.Price - call.Strike))
+                |> Seq.tryHead
+                |> Option.iter (fun contract -> this.MarketOrder(contract.Symbol, 1) |> ignore)
+            | _ -> ()
+` }]
+    },
+    {
+        label: 'Futures',
+        description: 'Buys the front month E-mini S&P 500 contract',
+        framework: false,
+        createFiles: className => [{ name: 'Main.fs', content: `namespace QuantConnect.Algorithm.FSharp
+
+open System
+open QuantConnect
+open QuantConnect.Algorithm
+open QuantConnect.Data
+open QuantConnect.Securities
+
+type ${className}() =
+    inherit QCAlgorithm()
+
+    override this.Initialize() =
+        this.SetStartDate(2018, 1, 1)
+        this.SetEndDate(2018, 3, 1)
+        this.SetCash(1000000)
+
+        let future = this.AddFuture(Futures.Indices.SP500EMini)
+        future.SetFilter(TimeSpan.Zero, TimeSpan.FromDays(182.0))
+
+    override this.OnData(data: Slice) =
+        if not this.Portfolio.Invested then
+            data.FutureChains
+            |> Seq.collect (fun chain -> chain.Value)
+            |> Seq.sortBy (fun contract -> contract.Expiry)
+            |> Seq.tryHead
+            |> Option.iter (fun contract -> this.MarketOrder(contract.Symbol, 1) |> ignore)
+` }]
+    },
+    {
+        label: 'Crypto',
+        description: 'Holds BTCUSD in a GDAX cash account',
+        framework: false,
+        createFiles: className => [{ name: 'Main.fs', content: `namespace QuantConnect.Algorithm.FSharp
+
+open QuantConnect
+open QuantConnect.Algorithm
+open QuantConnect.Brokerages
+open QuantConnect.Data
+
+type ${className}() =
+    inherit QCAlgorithm()
+
+    let mutable btc = Unchecked.defaultof<Symbol>
+
+    override this.Initialize() =
+        this.SetStartDate(2018, 1, 1)
+        this.SetEndDate(2019, 1, 1)
+        this.SetCash(100000)
+
+        this.SetBrokerageModel(BrokerageName.GDAX, AccountType.Cash)
+        btc <- this.AddCrypto("BTCUSD", Resolution.Hour).Symbol
+
+    override this.OnData(data: Slice) =
+        if not this.Portfolio.Invested then
+            this.SetHoldings(btc, 0.5m)
+` }]
+    },
+];
+
+/**Templates offered for each language, the default first */
+const TEMPLATES: { [language: string]: ProjectTemplate[] } = {
+    [Language.Python]: PYTHON_TEMPLATES,
+    [Language.CSharp]: CSHARP_TEMPLATES,
+    [Language.FSharp]: FSHARP_TEMPLATES,
+};
+
+/**
+ * Get the templates offered for projects in a language
+ */
+export function getTemplates(language: Language): ProjectTemplate[] {
+    return TEMPLATES[language] || [];
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { parseStatistic } from '../comparison';
+
+suite("Backtest Comparison Tests", function () {
+
+    test("Parses formatted statistics", function() {
+        assert.equal(parseStatistic('12.5%'), 12.5);
+        assert.equal(parseStatistic('-$1,234.56'), -1234.56);
+        assert.equal(parseStatistic('0.873'), 0.873);
+        assert.equal(parseStatistic(42), 42);
+    });
+
+    test("Ignores non-numeric statistics", function() {
+        assert.equal(parseStatistic('N/A'), undefined);
+        assert.equal(parseStatistic(undefined), undefined);
+    });
+});
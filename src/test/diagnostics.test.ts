@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { parseCompileLogs } from '../diagnostics';
+
+suite("Compile Diagnostics Tests", function () {
+
+    test("Parses C# compiler errors", function() {
+        let messages = parseCompileLogs(['/LeanCloud/Main.cs(12,5): error CS1002: ; expected']);
+
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0].fileName, '/LeanCloud/Main.cs');
+        assert.equal(messages[0].line, 12);
+        assert.equal(messages[0].column, 5);
+        assert.equal(messages[0].code, 'CS1002');
+        assert.equal(messages[0].message, '; expected');
+    });
+
+    test("Parses QuantConnect build errors", function() {
+        let messages = parseCompileLogs(['Build Error: File: main.py Line:10 Column:1 - SyntaxError: invalid syntax']);
+
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0].fileName, 'main.py');
+        assert.equal(messages[0].line, 10);
+        assert.equal(messages[0].severity, 'error');
+    });
+
+    test("Parses Python lint warnings", function() {
+        let messages = parseCompileLogs(['main.py:3:1: W0611 Unused import os']);
+
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0].severity, 'warning');
+        assert.equal(messages[0].code, 'W0611');
+    });
+
+    test("Parses Python tracebacks", function() {
+        let messages = parseCompileLogs([
+            'Traceback (most recent call last):\n  File "main.py", line 7, in Initialize\n    self.foo()\nAttributeError: \'MyAlgorithm\' object has no attribute \'foo\''
+        ]);
+
+        assert.equal(messages.length, 1);
+        assert.equal(messages[0].fileName, 'main.py');
+        assert.equal(messages[0].line, 7);
+        assert.equal(messages[0].code, 'AttributeError');
+    });
+
+    test("Ignores unrelated log lines", function() {
+        assert.equal(parseCompileLogs(['Build Request Successful for Project ID: 1234']).length, 0);
+    });
+});
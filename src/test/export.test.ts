@@ -0,0 +1,30 @@
+import * as assert from 'assert';
+import { BacktestResult } from '../api';
+import { closedTradesToCsv, ordersToCsv, toCsv } from '../export';
+
+suite("Export Tests", function () {
+
+    test("Quotes CSV fields containing separators, quotes and line breaks", function() {
+        assert.equal(toCsv(['a', 'b'], [['x,y', 'say "hi"'], ['line\nbreak', undefined]]), 'a,b\r\n"x,y","say ""hi"""\r\n"line\nbreak",\r\n');
+    });
+
+    test("Exports closed trades and orders", function() {
+        let result = <BacktestResult> <any> {
+            Orders: {
+                '2': { Id: 2, Symbol: { Value: 'SPY' }, Type: 0, Status: 3, Quantity: -10, Price: 101, Value: -1010, Tag: '' },
+                '1': { Id: 1, Symbol: { Value: 'SPY' }, Type: 1, Status: 3, Quantity: 10, Price: 100, Value: 1000, Tag: 'entry' }
+            },
+            TotalPerformance: {
+                ClosedTrades: [{ Symbol: { Value: 'SPY' }, Direction: 0, EntryPrice: 100, ExitPrice: 101, Quantity: 10, ProfitLoss: 10 }]
+            }
+        };
+
+        let trades = closedTradesToCsv(result).split('\r\n');
+        assert.equal(trades.length, 3);
+        assert.ok(trades[1].startsWith('SPY,Long,,100,,101,10,10'));
+
+        let orders = ordersToCsv(result).split('\r\n');
+        assert.ok(orders[1].startsWith('1,SPY,Limit,Filled,Buy'));
+        assert.ok(orders[2].startsWith('2,SPY,Market,Filled,Sell'));
+    });
+});
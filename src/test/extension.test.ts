@@ -1,22 +1,404 @@
-//
-// Note: This example test is leveraging the Mocha test framework.
-// Please refer to their documentation on https://mochajs.org/ for help.
-//
-
-// The module 'assert' provides assertion methods from node
 import * as assert from 'assert';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CompileState, Language, LeanApi, LeanApiError } from '../api';
+import { CloudFileSystemProvider, toCloudUri } from '../cloudfs';
+import { CredentialManager } from '../credentials';
+import { Projects } from '../extension';
+import { parseCommitNote, readLedger } from '../git';
+import { getManifestPath, readManifest } from '../manifest';
+import { getSweepConcurrency, runParameterSweep, SweepRun } from '../optimize';
+import { listProjectFiles, QCAlgorithmProject } from '../project';
+import { getProjectStatus } from '../status';
+import { getTemplates } from '../templates';
+import { MockQuantConnectApi } from './mockApi';
+
+const USER_ID = '1234';
+const API_KEY = 'mock-api-key';
+
+/**
+ * Secret storage kept in memory, holding a single profile for the mock API
+ */
+class MemorySecretStorage implements vscode.SecretStorage {
+    private secrets = new Map<string, string>();
+    private changeEmitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+
+    public readonly onDidChange = this.changeEmitter.event;
+
+    constructor() {
+        this.secrets.set('quantconnect.profiles', JSON.stringify({
+            activeProfile: 'default',
+            profiles: [{ name: 'default', apiKey: API_KEY, userId: USER_ID }]
+        }));
+    }
+
+    public async get(key: string) {
+        return this.secrets.get(key);
+    }
+
+    public async store(key: string, value: string) {
+        this.secrets.set(key, value);
+        this.changeEmitter.fire({ key: key });
+    }
 
-// You can import and use all API from the 'vscode' module
-// as well as import your extension to test it
-// import * as vscode from 'vscode';
-// import * as myExtension from '../extension';
+    public async delete(key: string) {
+        this.secrets.delete(key);
+        this.changeEmitter.fire({ key: key });
+    }
+}
+
+/**
+ * Poll a condition until it holds. Used for work the extension starts without handing us a promise
+ */
+async function waitFor(condition: () => boolean, timeoutMs: number = 5000) {
+    let start = Date.now();
+
+    while (!condition()) {
+        if (Date.now() - start > timeoutMs) {
+            throw new Error('Timed out waiting for condition');
+        }
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+}
+
+/**
+ * Extension context of the projects created by the tests. Projects only push their disposables to it
+ */
+function createTestContext(): vscode.ExtensionContext {
+    let context: Pick<vscode.ExtensionContext, 'subscriptions'> = { subscriptions: [] };
+    return <vscode.ExtensionContext> context;
+}
+
+function removeDirectory(dirPath: string) {
+    if (!fs.existsSync(dirPath)) {
+        return;
+    }
+    for (let entry of fs.readdirSync(dirPath)) {
+        let entryPath = path.join(dirPath, entry);
+
+        if (fs.lstatSync(entryPath).isDirectory()) {
+            removeDirectory(entryPath);
+        }
+        else {
+            fs.unlinkSync(entryPath);
+        }
+    }
+    fs.rmdirSync(dirPath);
+}
 
-// Defines a Mocha test suite to group tests of similar kind together
 suite("Extension Tests", function () {
+    // Compiles and backtests are polled every couple of seconds
+    this.timeout(20000);
+
+    let mock = new MockQuantConnectApi(USER_ID, API_KEY);
+    let credManager: CredentialManager;
+    let previousApiUrl: string | undefined;
+    let projectPaths: string[] = [];
+
+    /**
+     * Create a project through the mock and wait until its files have been downloaded
+     */
+    async function createProject(name: string): Promise<QCAlgorithmProject> {
+        let project = new QCAlgorithmProject(createTestContext(), credManager, name, Language.Python, true, false);
+
+        projectPaths.push(project.projectPath);
+        await waitFor(() => fs.existsSync(path.join(project.projectPath, 'main.py')));
+        return project;
+    }
+
+    suiteSetup(async function() {
+        let config = vscode.workspace.getConfiguration('quantconnect');
+
+        previousApiUrl = config.get<string>('cloudApiUrl');
+        await config.update('cloudApiUrl', await mock.start(), vscode.ConfigurationTarget.Global);
+
+        credManager = new CredentialManager(new MemorySecretStorage());
+        await credManager.initialize();
+    });
+
+    suiteTeardown(async function() {
+        await vscode.workspace.getConfiguration('quantconnect').update('cloudApiUrl', previousApiUrl, vscode.ConfigurationTarget.Global);
+        await mock.stop();
+    });
+
+    setup(function() {
+        mock.reset();
+    });
+
+    teardown(function() {
+        for (let projectPath of projectPaths) {
+            removeDirectory(projectPath);
+        }
+        projectPaths = [];
+    });
+
+    test("Signs requests with the timestamped API key hash", async function() {
+        assert.equal(await credManager.api.authenticated(), true);
+        assert.equal(await new LeanApi('wrong-api-key', USER_ID).authenticated(), false);
+    });
+
+    test("Creates a project in the cloud and downloads its files", async function() {
+        let project = await createProject('Mock Project');
+
+        assert.equal(mock.countRequests('projects/create'), 1);
+        assert.equal(fs.readFileSync(path.join(project.projectPath, 'main.py')).toString(), mock.getFile(project.projectId, 'main.py')!.content);
+    });
+
+    test("Creates a project from a template", async function() {
+        let template = getTemplates(Language.Python).find(candidate => candidate.framework)!;
+        let project = new QCAlgorithmProject(createTestContext(), credManager, 'Mock Framework Project', Language.Python, true, false, undefined, undefined, template);
+
+        projectPaths.push(project.projectPath);
+        await waitFor(() => fs.existsSync(path.join(project.projectPath, 'alpha.py')) && fs.existsSync(path.join(project.projectPath, 'main.py')));
+
+        assert.equal(project.frameworkProject, true);
+        assert.ok(mock.getFile(project.projectId, 'main.py')!.content.indexOf('class MockFrameworkProject(QCAlgorithm)') !== -1);
+        assert.equal(fs.readFileSync(path.join(project.projectPath, 'alpha.py')).toString(), mock.getFile(project.projectId, 'alpha.py')!.content);
+    });
+
+    test("Syncs local and cloud changes", async function() {
+        let project = await createProject('Mock Sync Project');
+        let mainPath = path.join(project.projectPath, 'main.py');
+
+        fs.writeFileSync(mainPath, '# Changed locally\n');
+        await project.sync();
+        assert.equal(mock.getFile(project.projectId, 'main.py')!.content, '# Changed locally\n');
+
+        mock.setFile(project.projectId, 'main.py', '# Changed in the cloud\n');
+        mock.setFile(project.projectId, 'helpers.py', '# New in the cloud\n');
+        await project.sync();
+        assert.equal(fs.readFileSync(mainPath).toString(), '# Changed in the cloud\n');
+        assert.equal(fs.readFileSync(path.join(project.projectPath, 'helpers.py')).toString(), '# New in the cloud\n');
+    });
+
+    test("Reconciles files changed on disk without touching the cloud", async function() {
+        let project = await createProject('Mock Checkout Project');
+        let mainPath = path.join(project.projectPath, 'main.py');
+        let helpersPath = path.join(project.projectPath, 'helpers.py');
+        await project.sync();
+
+        fs.unlinkSync(mainPath);
+        fs.writeFileSync(helpersPath, '# Checked out\n');
+
+        let removed = project.reconcileWithDisk();
+        assert.deepEqual(removed.map(file => file.filePath), [mainPath]);
+        assert.deepEqual(project.files.map(file => file.filePath), [helpersPath]);
+        assert.equal(project.getFileByPath(helpersPath)!.isSyncedToCloud, false);
+        assert.ok(mock.getFile(project.projectId, 'main.py'));
+        assert.equal(mock.getFile(project.projectId, 'helpers.py'), undefined);
+        assert.deepEqual(Object.keys(readManifest(project.projectPath)!.files), []);
+    });
+
+    test("Maps subdirectories to slash-separated file names", async function() {
+        let project = await createProject('Mock Nested Project');
+        let localPath = path.join(project.projectPath, 'models', 'alpha.py');
+
+        mock.setFile(project.projectId, 'lib/helpers.py', '# Nested in the cloud\n');
+        fs.mkdirSync(path.dirname(localPath));
+        fs.writeFileSync(localPath, '# Nested locally\n');
+        await project.addLocalFile(localPath);
+        await project.sync();
+
+        let cloudFile = mock.getFile(project.projectId, 'models/alpha.py');
+        let helpersPath = path.join(project.projectPath, 'lib', 'helpers.py');
+        assert.equal(cloudFile && cloudFile.content, '# Nested locally\n');
+        assert.equal(fs.readFileSync(helpersPath).toString(), '# Nested in the cloud\n');
+        assert.equal(project.getFileName(helpersPath), 'lib/helpers.py');
+
+        fs.writeFileSync(path.join(project.projectPath, 'lib', '.DS_Store'), '');
+        fs.writeFileSync(path.join(project.projectPath, 'Thumbs.db'), '');
+        assert.deepEqual(listProjectFiles(project.projectPath).map(filePath => project.getFileName(filePath)).sort(), ['lib/helpers.py', 'main.py', 'models/alpha.py']);
+
+        Projects.push(project);
+        try {
+            assert.equal(QCAlgorithmProject.getProjectByPath(helpersPath), project);
+            assert.equal(QCAlgorithmProject.getProjectByPath(path.join(project.projectPath, '.quantconnect', 'state.json')), undefined);
+        }
+        finally {
+            Projects.splice(Projects.indexOf(project), 1);
+        }
+    });
+
+    test("Binds the project folder through its manifest", async function() {
+        let project = await createProject('Mock Manifest Project');
+        await project.sync();
+
+        let manifest = readManifest(project.projectPath)!;
+        assert.equal(manifest.projectId, project.projectId);
+        assert.equal(manifest.language, Language.Python);
+        assert.ok(manifest.files['main.py'].syncedHash);
+
+        let restored = QCAlgorithmProject.fromManifest(createTestContext(), credManager, project.projectPath, manifest);
+        assert.equal(restored.projectId, project.projectId);
+        assert.equal(restored.getFileByPath(path.join(project.projectPath, 'main.py'))!.syncedHash, manifest.files['main.py'].syncedHash);
+        assert.equal(restored.getFileByPath(getManifestPath(project.projectPath)), undefined);
+
+        project.renameLocalFile('main.py', 'algorithm.py');
+        assert.deepEqual(Object.keys(readManifest(project.projectPath)!.files), ['algorithm.py']);
+    });
+
+    test("Puts projects in the selected workspace folder", async function() {
+        let workspacePath = vscode.workspace.workspaceFolders![0].uri.fsPath;
+        let folder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(path.join(workspacePath, 'research')), name: 'research', index: 1 };
+        let projectPath = QCAlgorithmProject.getProjectPath(folder, 'Mock Research Project!');
+
+        fs.mkdirSync(folder.uri.fsPath);
+        projectPaths.push(folder.uri.fsPath);
+
+        let project = new QCAlgorithmProject(createTestContext(), credManager, 'Mock Research Project!', Language.Python, true, false, undefined, undefined, undefined, projectPath);
+        await waitFor(() => fs.existsSync(path.join(projectPath, 'main.py')));
+
+        assert.equal(projectPath, path.join(workspacePath, 'research', 'Mock Research Project'));
+        assert.equal(project.projectPath, projectPath);
+        assert.equal(readManifest(projectPath)!.projectId, project.projectId);
+    });
+
+    test("Reads and writes cloud files through the qc:// file system", async function() {
+        let project = await createProject('Mock Cloud Files Project');
+        let fileSystem = new CloudFileSystemProvider(credManager);
+        let projectId = project.projectId;
+
+        let content = await fileSystem.readFile(toCloudUri('default', projectId, 'main.py'));
+        assert.equal(Buffer.from(content).toString(), mock.getFile(projectId, 'main.py')!.content);
+        assert.deepEqual(await fileSystem.readFile(vscode.Uri.parse(`qc://${projectId}/main.py`)), content);
+
+        await fileSystem.writeFile(toCloudUri('default', projectId, 'lib/helpers.py'), Buffer.from('# Hotfix\n'), { create: true, overwrite: false });
+        assert.equal(mock.getFile(projectId, 'lib/helpers.py')!.content, '# Hotfix\n');
+        assert.deepEqual((await fileSystem.readDirectory(toCloudUri('default', projectId))).sort(), [['lib', vscode.FileType.Directory], ['main.py', vscode.FileType.File]]);
+        assert.equal((await fileSystem.stat(toCloudUri('default', projectId, 'lib'))).type, vscode.FileType.Directory);
+
+        await fileSystem.rename(toCloudUri('default', projectId, 'lib'), toCloudUri('default', projectId, 'models'), { overwrite: false });
+        assert.equal(mock.getFile(projectId, 'lib/helpers.py'), undefined);
+        assert.equal(mock.getFile(projectId, 'models/helpers.py')!.content, '# Hotfix\n');
+
+        await fileSystem.delete(toCloudUri('default', projectId, 'models'), { recursive: true });
+        assert.equal(mock.getFile(projectId, 'models/helpers.py'), undefined);
+        await assert.rejects(fileSystem.readFile(toCloudUri('default', projectId, 'missing.py')), vscode.FileSystemError);
+
+        // Files of a project opened under another profile are never read through the active profile
+        await assert.rejects(fileSystem.readFile(toCloudUri('personal', projectId, 'main.py')), /not signed in/);
+    });
+
+    test("Compiles and backtests a project", async function() {
+        let project = await createProject('Mock Backtest Project');
+        let compile = await project.compile();
+
+        assert.equal(compile.state, CompileState.BuildSuccess);
+
+        let backtest = await project.runBacktest(compile.compileId, 'Mock Backtest');
+        assert.equal(backtest.completed, true);
+        assert.equal(backtest.result!.Statistics['Total Trades'], '1');
+    });
+
+    test("Records the git commit of backtests and uploads", async function() {
+        let project = await createProject('Mock Git Project');
+        let git = (...args: string[]) => childProcess.execFileSync('git', args, { cwd: project.projectPath }).toString().trim();
+
+        git('init', '-q', '-b', 'production');
+        git('-c', 'user.email=test@example.com', '-c', 'user.name=Test', 'commit', '-q', '--allow-empty', '-m', 'Initial');
+
+        let compile = await project.compile();
+        let backtest = await project.runBacktest(compile.compileId, 'Mock Git Backtest');
+        let expected = { sha: git('rev-parse', 'HEAD'), branch: 'production', dirty: true };
+
+        assert.deepEqual(parseCommitNote((await project.api.readBacktest(project.projectId, backtest.backtestId)).note), expected);
+        assert.deepEqual(readLedger(project.projectPath).map(entry => [entry.backtestId, entry.sha, entry.dirty]), [[backtest.backtestId, expected.sha, true]]);
+
+        fs.writeFileSync(path.join(project.projectPath, 'main.py'), '# Uploaded\n');
+        await project.sync();
+        assert.deepEqual(readLedger(project.projectPath).map(entry => [entry.fileName, entry.sha]), [[undefined, expected.sha], ['main.py', expected.sha]]);
+    });
+
+    test("Runs one backtest per parameter combination", async function() {
+        let project = await createProject('Mock Sweep Project');
+        let compile = await project.compile();
+        let runs: SweepRun[] = [{ parameters: { fast: '10' } }, { parameters: { fast: '20' } }, { parameters: { fast: '30' } }];
+
+        assert.equal(await getSweepConcurrency(project.api, project.projectId), mock.backtestNodes);
+        await runParameterSweep(project, compile.compileId, runs, mock.backtestNodes);
+
+        let fastValues = mock.requests
+            .filter(request => request.endpoint === 'backtests/create')
+            .map(request => request.params['parameters[fast]']);
+        assert.deepEqual(fastValues.sort(), ['10', '20', '30']);
+        assert.ok(runs.every(run => run.backtest !== undefined && run.backtest.completed));
+    });
+
+    test("Tracks the sync, compile and backtest state shown in the status bar", async function() {
+        let project = await createProject('Mock Status Project');
+        let mainFile = project.getFileByPath(path.join(project.projectPath, 'main.py'))!;
+        let backtestProgress: number[] = [];
+        let onStateChange = QCAlgorithmProject.onDidChangeState(changed => {
+            if (changed === project) {
+                backtestProgress.push(...Array.from(project.runningBacktests.values()));
+            }
+        });
+
+        try {
+            await project.sync();
+            assert.equal(getProjectStatus(project).text, 'QuantConnect [default]: Py - Mock Status Project $(cloud)');
+
+            fs.writeFileSync(mainFile.filePath, '# Changed locally\n');
+            project.updateSyncedFlag(mainFile);
+            assert.ok(getProjectStatus(project, mainFile).text.endsWith('Mock Status Project/main.py $(cloud-upload) 1'));
+
+            let compile = await project.compile();
+            assert.ok(getProjectStatus(project).text.endsWith('$(check)'));
+
+            await project.runBacktest(compile.compileId, 'Mock Backtest');
+            assert.ok(backtestProgress.length > 0);
+            assert.equal(project.runningBacktests.size, 0);
+        }
+        finally {
+            onStateChange.dispose();
+        }
+    });
+
+    test("Reports build errors", async function() {
+        let project = await createProject('Mock Build Error Project');
+
+        mock.compileErrors = ['Build Error: File: main.py Line: 1 Column: 0 - invalid syntax'];
+        let compile = await project.compile();
+
+        assert.equal(compile.state, CompileState.BuildError);
+        assert.deepEqual(compile.logs, mock.compileErrors);
+    });
+
+    test("Retries GET requests and requests that were rate limited", async function() {
+        mock.failNext('projects/read', { status: 503, times: 2 });
+        await credManager.api.listProjects();
+        assert.equal(mock.countRequests('projects/read'), 3);
+
+        mock.failNext('projects/create', { status: 429, retryAfter: 0 });
+        await credManager.api.createProject('Mock Rate Limited Project', Language.Python);
+        assert.equal(mock.countRequests('projects/create'), 2);
+    });
+
+    test("Throws typed errors for failed requests", async function() {
+        mock.failNext('projects/create', { status: 500, errors: ['Server exploded'] });
+
+        try {
+            await credManager.api.createProject('Mock Failed Project', Language.Python);
+            assert.fail('Request should have failed');
+        }
+        catch (err) {
+            assert.ok(err instanceof LeanApiError);
+            assert.equal(err.status, 500);
+            assert.equal(err.endpoint, 'POST projects/create');
+            assert.deepEqual(err.errors, ['Server exploded']);
+        }
+        // POST requests aren't retried unless the API asks us to slow down
+        assert.equal(mock.countRequests('projects/create'), 1);
+    });
+
+    test("Tells missing files apart from other unsuccessful responses", async function() {
+        let project = await createProject('Mock Missing File Project');
+
+        await assert.rejects(credManager.api.readProjectFile(project.projectId, 'missing.py'), (err: LeanApiError) => err.isFileNotFound);
 
-    // Defines a Mocha unit test
-    test("Something 1", function() {
-        assert.equal(-1, [1, 2, 3].indexOf(5));
-        assert.equal(-1, [1, 2, 3].indexOf(0));
+        mock.failNext('files/read', { errors: ['Hash doesn\'t match'] });
+        await assert.rejects(credManager.api.readProjectFile(project.projectId, 'main.py'), (err: LeanApiError) => err.status === 200 && !err.isFileNotFound);
     });
-});
\ No newline at end of file
+});
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { appendLedgerEntry, formatCommitNote, GitLedger, parseCommitNote, readGitInfo, readLedger } from '../git';
+
+const SHA = '3f2a9c1e5b7d4a6f8e0c2b4d6f8a0c2e4b6d8f0a';
+
+function removeDirectory(dirPath: string) {
+    for (let entry of fs.readdirSync(dirPath)) {
+        let entryPath = path.join(dirPath, entry);
+
+        if (fs.lstatSync(entryPath).isDirectory()) {
+            removeDirectory(entryPath);
+        }
+        else {
+            fs.unlinkSync(entryPath);
+        }
+    }
+    fs.rmdirSync(dirPath);
+}
+
+suite("Git Ledger Tests", function () {
+    let repoPath: string;
+
+    function git(...args: string[]): string {
+        return childProcess.execFileSync('git', args, { cwd: repoPath }).toString().trim();
+    }
+
+    setup(function() {
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'qc-git-'));
+    });
+
+    teardown(function() {
+        removeDirectory(repoPath);
+    });
+
+    test("Writes the commit into a backtest note and reads it back", function() {
+        assert.equal(formatCommitNote({ sha: SHA, branch: 'main', dirty: true }), `git: ${SHA} (main, dirty)`);
+        assert.deepEqual(parseCommitNote(`Momentum tweak\ngit: ${SHA} (main, dirty)`), { sha: SHA, branch: 'main', dirty: true });
+        assert.deepEqual(parseCommitNote(formatCommitNote({ sha: SHA, dirty: false })), { sha: SHA, branch: undefined, dirty: false });
+        assert.equal(parseCommitNote('Momentum tweak'), undefined);
+        assert.equal(parseCommitNote(undefined), undefined);
+    });
+
+    test("Appends backtests to the ledger", function() {
+        let entry = { time: '2021-01-01T00:00:00.000Z', projectId: 1, backtestId: 'b1', backtestName: 'First', sha: SHA, branch: 'main', dirty: false };
+
+        appendLedgerEntry(repoPath, entry);
+        appendLedgerEntry(repoPath, { ...entry, backtestId: 'b2', backtestName: 'Second' });
+
+        assert.deepEqual(readLedger(repoPath).map(recorded => recorded.backtestId), ['b1', 'b2']);
+        assert.deepEqual(readLedger(path.join(repoPath, 'missing')), []);
+    });
+
+    test("Reads the commit, branch and dirty state of a project", async function() {
+        this.timeout(10000);
+        assert.equal(await readGitInfo(repoPath), undefined);
+
+        git('init', '-q', '-b', 'research');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.writeFileSync(path.join(repoPath, 'main.py'), '# First\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'First');
+
+        let commit = await readGitInfo(repoPath);
+        assert.deepEqual(commit, { sha: git('rev-parse', 'HEAD'), branch: 'research', dirty: false });
+
+        // Sync state in the manifest changes all the time and doesn't count as a change to the algorithm
+        fs.mkdirSync(path.join(repoPath, '.quantconnect'));
+        fs.writeFileSync(path.join(repoPath, '.quantconnect', 'project.json'), '{}\n');
+        assert.equal((await readGitInfo(repoPath))!.dirty, false);
+
+        fs.writeFileSync(path.join(repoPath, 'main.py'), '# Changed\n');
+        assert.equal((await readGitInfo(repoPath))!.dirty, true);
+    });
+
+    test("Checks out the commit of a backtest unless the algorithm has uncommitted changes", async function() {
+        this.timeout(10000);
+
+        git('init', '-q', '-b', 'research');
+        git('config', 'user.email', 'test@example.com');
+        git('config', 'user.name', 'Test');
+        fs.mkdirSync(path.join(repoPath, '.quantconnect'));
+        fs.writeFileSync(path.join(repoPath, '.quantconnect', 'project.json'), '{}\n');
+        fs.writeFileSync(path.join(repoPath, 'main.py'), '# First\n');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'First');
+
+        let first = (await readGitInfo(repoPath))!;
+        fs.writeFileSync(path.join(repoPath, 'main.py'), '# Second\n');
+        git('commit', '-q', '-am', 'Second');
+
+        // A sync after the commit rewrites the manifest
+        fs.writeFileSync(path.join(repoPath, '.quantconnect', 'project.json'), '{ "files": {} }\n');
+        await GitLedger.checkout(repoPath, first);
+        assert.equal(git('rev-parse', 'HEAD'), first.sha);
+
+        fs.writeFileSync(path.join(repoPath, 'main.py'), '# Uncommitted\n');
+        await assert.rejects(GitLedger.checkout(repoPath, first), /uncommitted changes/);
+    });
+});
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { TokenBucket } from '../limiter';
+
+suite("Rate Limiter Tests", function () {
+
+    test("Allows a burst up to the capacity", async function() {
+        let now = 0;
+        let bucket = new TokenBucket(3, 1, () => now);
+
+        await bucket.take();
+        await bucket.take();
+        await bucket.take();
+    });
+
+    test("Hands out tokens in the order they were asked for", async function() {
+        let bucket = new TokenBucket(1, 100);
+        let order: number[] = [];
+        let start = Date.now();
+
+        await Promise.all([1, 2, 3].map(i => bucket.take().then(() => order.push(i))));
+
+        assert.deepEqual(order, [1, 2, 3]);
+        // The first token is free, the other two each wait for a refill
+        assert.ok(Date.now() - start >= 15);
+    });
+});
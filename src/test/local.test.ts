@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { Language } from '../api';
+import { createLeanConfig, findAlgorithmClassName, parseLeanResult } from '../local';
+
+suite("Local Backtest Tests", function () {
+
+    test("Finds the algorithm class in each language", function() {
+        assert.equal(findAlgorithmClassName('from AlgorithmImports import *\n\nclass BasicTemplate(QCAlgorithm):\n    pass\n', Language.Python), 'BasicTemplate');
+        assert.equal(findAlgorithmClassName('public class BasicTemplate : QCAlgorithm\n{\n}\n', Language.CSharp), 'BasicTemplate');
+        assert.equal(findAlgorithmClassName('type BasicTemplate() =\n    inherit QCAlgorithm()\n', Language.FSharp), 'BasicTemplate');
+        assert.equal(findAlgorithmClassName('class Helper(object):\n    pass\n', Language.Python), undefined);
+    });
+
+    test("Writes the algorithm and paths into the LEAN config", function() {
+        let config = createLeanConfig(Language.Python, 'BasicTemplate', 'local-1', {
+            algorithmLocation: '/Project/main.py',
+            dataFolder: '/Data',
+            resultsFolder: '/Results'
+        });
+
+        assert.equal(config['environment'], 'backtesting');
+        assert.equal(config['algorithm-language'], 'Python');
+        assert.equal(config['algorithm-type-name'], 'BasicTemplate');
+        assert.equal(config['algorithm-location'], '/Project/main.py');
+        assert.equal(config['algorithm-id'], 'local-1');
+        assert.equal(config['data-folder'], '/Data');
+        assert.equal(config['results-destination-folder'], '/Results');
+    });
+
+    test("Reads LEAN's result file into a backtest result", function() {
+        let result = parseLeanResult(JSON.stringify({
+            Statistics: { 'Total Trades': '1' },
+            Charts: { 'Strategy Equity': { Name: 'Strategy Equity', Series: {} } }
+        }));
+
+        assert.equal(result.Statistics['Total Trades'], '1');
+        assert.ok(result.Charts['Strategy Equity']);
+        assert.deepEqual(result.Orders, {});
+        assert.equal(result.IsFrameworkAlgorithm, false);
+    });
+});
@@ -0,0 +1,17 @@
+import * as assert from 'assert';
+import { matchesLogFilter } from '../logs';
+
+suite("Live Log Tests", function () {
+
+    test("Filters log lines by level", function() {
+        assert.equal(matchesLogFilter('2019-02-01 10:00:00 Trace:: Order filled', { level: 'Trace' }), true);
+        assert.equal(matchesLogFilter('2019-02-01 10:00:00 ERROR:: Brokerage disconnected', { level: 'Error' }), true);
+        assert.equal(matchesLogFilter('2019-02-01 10:00:00 Trace:: Order filled', { level: 'Error' }), false);
+    });
+
+    test("Filters log lines by pattern", function() {
+        assert.equal(matchesLogFilter('2019-02-01 10:00:00 Trace:: Order filled SPY', { pattern: /SPY/ }), true);
+        assert.equal(matchesLogFilter('2019-02-01 10:00:00 Trace:: Order filled AAPL', { pattern: /SPY/ }), false);
+        assert.equal(matchesLogFilter('anything', {}), true);
+    });
+});
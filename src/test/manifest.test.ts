@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Language } from '../api';
+import { deleteManifest, findProjectFolders, getManifestPath, readManifest, writeManifest } from '../manifest';
+
+function removeDirectory(dirPath: string) {
+    for (let entry of fs.readdirSync(dirPath)) {
+        let entryPath = path.join(dirPath, entry);
+
+        if (fs.lstatSync(entryPath).isDirectory()) {
+            removeDirectory(entryPath);
+        }
+        else {
+            fs.unlinkSync(entryPath);
+        }
+    }
+    fs.rmdirSync(dirPath);
+}
+
+suite("Project Manifest Tests", function () {
+    let rootPath: string;
+
+    setup(function() {
+        rootPath = fs.mkdtempSync(path.join(os.tmpdir(), 'qc-manifest-'));
+    });
+
+    teardown(function() {
+        removeDirectory(rootPath);
+    });
+
+    test("Writes and reads back a manifest", function() {
+        let projectPath = path.join(rootPath, 'Project');
+
+        writeManifest(projectPath, {
+            projectId: 42,
+            name: 'Project',
+            language: Language.Python,
+            profile: 'default',
+            files: { 'models/alpha.py': { syncedHash: 'b' }, 'main.py': { syncedHash: 'a', cloudModified: '2021-01-01' } }
+        });
+
+        let manifest = readManifest(projectPath)!;
+        assert.equal(manifest.projectId, 42);
+        assert.equal(manifest.language, Language.Python);
+        assert.deepEqual(Object.keys(manifest.files), ['main.py', 'models/alpha.py']);
+        assert.equal(manifest.files['main.py'].cloudModified, '2021-01-01');
+        assert.ok(fs.existsSync(path.join(projectPath, '.quantconnect', '.gitignore')));
+
+        deleteManifest(projectPath);
+        assert.equal(readManifest(projectPath), undefined);
+    });
+
+    test("Ignores invalid manifests", function() {
+        let manifestPath = getManifestPath(rootPath);
+
+        fs.mkdirSync(path.dirname(manifestPath));
+        fs.writeFileSync(manifestPath, '{ "projectId": 1');
+        assert.equal(readManifest(rootPath), undefined);
+
+        fs.writeFileSync(manifestPath, '{ "projectId": 1 }');
+        assert.equal(readManifest(rootPath), undefined);
+    });
+
+    test("Finds project folders in a workspace folder", function() {
+        let manifest = { name: 'Project', language: Language.CSharp, files: {} };
+
+        writeManifest(path.join(rootPath, 'First'), manifest);
+        writeManifest(path.join(rootPath, 'Second'), manifest);
+        fs.mkdirSync(path.join(rootPath, 'Unbound'));
+
+        assert.deepEqual(findProjectFolders(rootPath).sort(), [path.join(rootPath, 'First'), path.join(rootPath, 'Second')]);
+
+        writeManifest(rootPath, manifest);
+        assert.ok(findProjectFolders(rootPath).indexOf(rootPath) !== -1);
+    });
+});
@@ -0,0 +1,525 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as querystring from 'querystring';
+import * as url from 'url';
+import { AlgorithmStatus, CompileState, Language } from '../api';
+
+/**Default main file of a new project, by language */
+const MAIN_FILES: { [language: string]: { name: string, content: string } } = {
+    [Language.Python]: { name: 'main.py', content: 'class MockAlgorithm(QCAlgorithm):\n    def Initialize(self):\n        pass\n' },
+    [Language.CSharp]: { name: 'Main.cs', content: 'namespace QuantConnect.Algorithm.CSharp\n{\n    public class MockAlgorithm : QCAlgorithm\n    {\n    }\n}\n' },
+    [Language.FSharp]: { name: 'Main.fs', content: 'namespace QuantConnect.Algorithm.FSharp\n' },
+};
+
+/**How far the `Timestamp` header may drift from our clock, in seconds */
+const MAX_TIMESTAMP_DRIFT = 7200;
+
+/**A failure the mock answers the next request(s) to an endpoint with */
+export interface ScriptedFailure {
+    /**HTTP status code. Defaults to 200, i.e. an unsuccessful `FailureResponse` */
+    status?: number;
+    /**Errors reported in `FailureResponse.errors` */
+    errors?: string[];
+    /**Value of the `Retry-After` header, in seconds */
+    retryAfter?: number;
+    /**Number of requests to fail. Defaults to 1 */
+    times?: number;
+}
+
+/**A request received by the mock */
+export interface RecordedRequest {
+    method: string;
+    endpoint: string;
+    params: { [key: string]: any };
+}
+
+interface MockFile {
+    name: string;
+    content: string;
+    modified: Date;
+}
+
+interface MockBacktest {
+    backtestId: string;
+    name: string;
+    note?: string;
+    created: Date;
+    /**Number of reads left until the backtest completes */
+    pollsLeft: number;
+}
+
+interface MockLive {
+    projectId: number;
+    deployId: string;
+    status: AlgorithmStatus;
+    launched: Date;
+    stopped?: Date;
+    brokerage: string;
+    logs: string[];
+}
+
+interface MockProject {
+    projectId: number;
+    name: string;
+    language: Language;
+    created: Date;
+    modified: Date;
+    files: MockFile[];
+    compiles: Map<string, CompileState>;
+    backtests: MockBacktest[];
+}
+
+/**Thrown by endpoint handlers to answer with an unsuccessful response */
+class MockFailure extends Error {
+    constructor(public errors: string[], public status: number = 200) {
+        super(errors.join(', '));
+    }
+}
+
+/**
+ * In-process stand-in for the QuantConnect API, so that the extension can be tested without network access.
+ *
+ * Implements the endpoints used by `LeanApi`, keeps projects, files, compiles, backtests and live algorithms
+ * in memory, and checks the timestamped SHA-256 `Authorization` header the same way the real API does.
+ * Failures can be scripted per endpoint with `failNext`.
+ */
+export class MockQuantConnectApi {
+    /**Every request received, oldest first */
+    public requests: RecordedRequest[] = [];
+    /**When set, compiles fail with these logs */
+    public compileErrors?: string[];
+    /**Number of reads of a backtest before it completes */
+    public backtestPolls = 1;
+    /**Number of backtest nodes of the organization */
+    public backtestNodes = 2;
+
+    private server?: http.Server;
+    private projects: MockProject[] = [];
+    private live: MockLive[] = [];
+    private failures = new Map<string, ScriptedFailure[]>();
+    private nextId = 1;
+
+    constructor(public userId: string, public apiKey: string) {}
+
+    /**
+     * Start listening on a free local port
+     *
+     * @returns Base url to point `LeanApi` at
+     */
+    public start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let server = http.createServer((req, res) => this.handle(req, res));
+
+            server.on('error', reject);
+            server.listen(0, '127.0.0.1', () => {
+                let address = <{ port: number }> server.address();
+                resolve(`http://127.0.0.1:${address.port}/api/v2/`);
+            });
+            this.server = server;
+        });
+    }
+
+    public stop(): Promise<void> {
+        return new Promise(resolve => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(() => resolve());
+            this.server = undefined;
+        });
+    }
+
+    /**
+     * Answer the next request(s) to an endpoint with a failure
+     *
+     * @param endpoint Endpoint without the base url, e.g. `files/update`
+     */
+    public failNext(endpoint: string, failure: ScriptedFailure = {}) {
+        let queue = this.failures.get(endpoint) || [];
+
+        for (let i = 0; i < (failure.times || 1); i++) {
+            queue.push(failure);
+        }
+        this.failures.set(endpoint, queue);
+    }
+
+    /**
+     * Forget all state, recorded requests and scripted failures
+     */
+    public reset() {
+        this.requests = [];
+        this.projects = [];
+        this.live = [];
+        this.failures.clear();
+        this.compileErrors = undefined;
+        this.backtestPolls = 1;
+        this.backtestNodes = 2;
+    }
+
+    /**
+     * Get a file as it's stored in the cloud
+     */
+    public getFile(projectId: number, name: string): MockFile | undefined {
+        return this.getProject(projectId).files.find(file => file.name === name);
+    }
+
+    /**
+     * Change or create a file in the cloud, as if it had been edited on the website
+     */
+    public setFile(projectId: number, name: string, content: string) {
+        let project = this.getProject(projectId);
+        let file = project.files.find(existing => existing.name === name);
+
+        if (!file) {
+            file = { name: name, content: content, modified: new Date() };
+            project.files.push(file);
+        }
+        file.content = content;
+        file.modified = MockQuantConnectApi.later(file.modified);
+    }
+
+    /**
+     * Number of requests received for an endpoint
+     */
+    public countRequests(endpoint: string): number {
+        return this.requests.filter(request => request.endpoint === endpoint).length;
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        let body = '';
+
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            let parsedUrl = url.parse(req.url || '', true);
+            let endpoint = (parsedUrl.pathname || '').replace(/^\/api\/v2\//, '');
+            let params = Object.assign({}, parsedUrl.query, querystring.parse(body));
+
+            this.requests.push({ method: req.method || '', endpoint: endpoint, params: params });
+
+            let failures = this.failures.get(endpoint);
+            let failure = failures ? failures.shift() : undefined;
+            if (failure) {
+                let headers: http.OutgoingHttpHeaders = {};
+
+                if (failure.retryAfter !== undefined) {
+                    headers['Retry-After'] = String(failure.retryAfter);
+                }
+                this.send(res, failure.status || 200, { success: false, errors: failure.errors || ['Scripted failure'] }, headers);
+                return;
+            }
+
+            if (!this.isAuthenticated(req)) {
+                this.send(res, 401, { success: false, errors: ['Hash doesn\'t match.'] });
+                return;
+            }
+
+            try {
+                this.send(res, 200, Object.assign({ success: true, errors: [] }, this.route(req.method || '', endpoint, params)));
+            }
+            catch (err) {
+                if (err instanceof MockFailure) {
+                    this.send(res, err.status, { success: false, errors: err.errors });
+                    return;
+                }
+                this.send(res, 500, { success: false, errors: [String(err.message)] });
+            }
+        });
+    }
+
+    private send(res: http.ServerResponse, status: number, body: any, headers: http.OutgoingHttpHeaders = {}) {
+        res.writeHead(status, Object.assign({ 'Content-Type': 'application/json' }, headers));
+        res.end(JSON.stringify(body));
+    }
+
+    /**
+     * Check the `Authorization` header against `base64(userId:sha256(apiKey:timestamp))`
+     */
+    private isAuthenticated(req: http.IncomingMessage): boolean {
+        let authorization = String(req.headers['authorization'] || '');
+        let timestamp = String(req.headers['timestamp'] || '');
+
+        if (!authorization.startsWith('Basic ') || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_TIMESTAMP_DRIFT) {
+            return false;
+        }
+
+        let expectedHash = crypto.createHash('sha256').update(`${this.apiKey}:${timestamp}`).digest('hex');
+        let decoded = Buffer.from(authorization.substring('Basic '.length), 'base64').toString();
+
+        return decoded === `${this.userId}:${expectedHash}`;
+    }
+
+    private route(method: string, endpoint: string, params: { [key: string]: any }): object {
+        let projectId = Number(params.projectId);
+
+        switch (`${method} ${endpoint}`) {
+            case 'GET authenticate':
+            return {};
+
+            case 'POST projects/create':
+            return { projects: [this.toProject(this.createProject(params.name, params.language))] };
+
+            case 'GET projects/read':
+            let projects = params.projectId === undefined ? this.projects : [this.getProject(projectId)];
+            return { projects: projects.map(project => this.toProject(project)) };
+
+            case 'GET projects/nodes/read':
+            this.getProject(projectId);
+            let nodes = [];
+            for (let i = 0; i < this.backtestNodes; i++) {
+                nodes.push({ id: `node-${i}`, name: `Backtest node ${i}`, sku: 'B2-8', busy: false });
+            }
+            return { nodes: { backtest: nodes, research: [], live: [] } };
+
+            case 'POST projects/delete':
+            this.getProject(projectId);
+            this.projects = this.projects.filter(project => project.projectId !== projectId);
+            return {};
+
+            case 'POST files/create':
+            return { files: [this.createFile(this.getProject(projectId), params.name, params.content)] };
+
+            case 'GET files/read':
+            return { files: this.readFiles(this.getProject(projectId), params.name) };
+
+            case 'POST files/update':
+            this.updateFile(this.getProject(projectId), params.name, params.newName, params.content);
+            return {};
+
+            case 'POST files/delete':
+            let project = this.getProject(projectId);
+            this.readFiles(project, params.name);
+            project.files = project.files.filter(file => file.name !== params.name);
+            return {};
+
+            case 'POST compile/create':
+            return this.createCompile(this.getProject(projectId));
+
+            case 'GET compile/read':
+            return this.readCompile(this.getProject(projectId), params.compileId);
+
+            case 'POST backtests/create':
+            return this.createBacktest(this.getProject(projectId), params.compileId, params.backtestName);
+
+            case 'GET backtests/read':
+            if (params.backtestId === undefined) {
+                return { backtests: this.getProject(projectId).backtests.map(backtest => this.toBacktest(backtest)) };
+            }
+            return this.readBacktest(this.getProject(projectId), params.backtestId);
+
+            case 'POST backtests/update':
+            let backtest = this.getBacktest(this.getProject(projectId), params.backtestId);
+            backtest.name = params.name !== undefined ? params.name : backtest.name;
+            backtest.note = params.note !== undefined ? params.note : backtest.note;
+            return this.toBacktest(backtest);
+
+            case 'POST backtests/delete':
+            let backtestProject = this.getProject(projectId);
+            this.getBacktest(backtestProject, params.backtestId);
+            backtestProject.backtests = backtestProject.backtests.filter(existing => existing.backtestId !== params.backtestId);
+            return {};
+
+            case 'POST backtests/read/report':
+            this.getBacktest(this.getProject(projectId), params.backtestId);
+            return { report: '<html><body>Mock report</body></html>' };
+
+            case 'POST live/create':
+            return this.createLive(this.getProject(projectId), params);
+
+            case 'GET live/read':
+            if (params.deployId === undefined) {
+                return { live: this.live.filter(live => params.status === undefined || live.status === Number(params.status)) };
+            }
+            this.getLive(projectId);
+            return { LiveResults: { results: { Holdings: {}, Orders: {}, ProfitLoss: {}, RuntimeStatistics: {}, ServerStatistics: {}, Charts: {} } } };
+
+            case 'GET live/read/log':
+            return { LiveLogs: this.getLive(projectId).logs };
+
+            case 'POST live/update/stop':
+            let stopped = this.getLive(projectId);
+            stopped.status = AlgorithmStatus.Stopped;
+            stopped.stopped = new Date();
+            return {};
+
+            case 'POST live/update/liquidate':
+            let liquidated = this.getLive(projectId);
+            liquidated.status = AlgorithmStatus.Liquidated;
+            liquidated.stopped = new Date();
+            return {};
+        }
+
+        throw new MockFailure([`Unknown endpoint ${method} ${endpoint}`], 404);
+    }
+
+    private createProject(name: string, language: Language): MockProject {
+        if (this.projects.some(project => project.name === name)) {
+            throw new MockFailure([`Project ${name} already exists`]);
+        }
+
+        let main = MAIN_FILES[language];
+        if (!main) {
+            throw new MockFailure([`Unknown language ${language}`]);
+        }
+
+        let project: MockProject = {
+            projectId: this.nextId++,
+            name: name,
+            language: language,
+            created: new Date(),
+            modified: new Date(),
+            files: [{ name: main.name, content: main.content, modified: new Date() }],
+            compiles: new Map(),
+            backtests: []
+        };
+        this.projects.push(project);
+        return project;
+    }
+
+    private getProject(projectId: number): MockProject {
+        let project = this.projects.find(existing => existing.projectId === projectId);
+
+        if (!project) {
+            throw new MockFailure([`Project ${projectId} not found`]);
+        }
+        return project;
+    }
+
+    private toProject(project: MockProject) {
+        return { projectId: project.projectId, name: project.name, language: project.language, created: project.created, modified: project.modified };
+    }
+
+    private createFile(project: MockProject, name: string, content: string): MockFile {
+        if (project.files.some(file => file.name === name)) {
+            throw new MockFailure([`File ${name} already exists`]);
+        }
+
+        let file = { name: name, content: content || '', modified: new Date() };
+        project.files.push(file);
+        return file;
+    }
+
+    private readFiles(project: MockProject, name?: string): MockFile[] {
+        if (name === undefined) {
+            return project.files;
+        }
+
+        let files = project.files.filter(file => file.name === name);
+        if (files.length === 0) {
+            throw new MockFailure([`File ${name} not found`]);
+        }
+        return files;
+    }
+
+    private updateFile(project: MockProject, name: string, newName?: string, content?: string) {
+        let file = this.readFiles(project, name)[0];
+
+        if (newName !== undefined) {
+            if (project.files.some(existing => existing.name === newName)) {
+                throw new MockFailure([`File ${newName} already exists`]);
+            }
+            file.name = newName;
+        }
+        if (content !== undefined) {
+            file.content = content;
+        }
+        file.modified = MockQuantConnectApi.later(file.modified);
+    }
+
+    private createCompile(project: MockProject) {
+        let compileId = `compile-${this.nextId++}`;
+
+        project.compiles.set(compileId, this.compileErrors ? CompileState.BuildError : CompileState.BuildSuccess);
+        return { compileId: compileId, state: CompileState.InQueue, logs: [] };
+    }
+
+    private readCompile(project: MockProject, compileId: string) {
+        let state = project.compiles.get(compileId);
+
+        if (state === undefined) {
+            throw new MockFailure([`Compile ${compileId} not found`]);
+        }
+        return { compileId: compileId, state: state, logs: state === CompileState.BuildError ? this.compileErrors || [] : ['Build Success.'] };
+    }
+
+    private createBacktest(project: MockProject, compileId: string, name: string) {
+        if (project.compiles.get(compileId) !== CompileState.BuildSuccess) {
+            throw new MockFailure([`Compile ${compileId} did not succeed`]);
+        }
+
+        let backtest: MockBacktest = { backtestId: `backtest-${this.nextId++}`, name: name, created: new Date(), pollsLeft: this.backtestPolls };
+        project.backtests.push(backtest);
+        return this.toBacktest(backtest);
+    }
+
+    private getBacktest(project: MockProject, backtestId: string): MockBacktest {
+        let backtest = project.backtests.find(existing => existing.backtestId === backtestId);
+
+        if (!backtest) {
+            throw new MockFailure([`Backtest ${backtestId} not found`]);
+        }
+        return backtest;
+    }
+
+    private readBacktest(project: MockProject, backtestId: string) {
+        let backtest = this.getBacktest(project, backtestId);
+
+        backtest.pollsLeft = Math.max(0, backtest.pollsLeft - 1);
+        return this.toBacktest(backtest);
+    }
+
+    private toBacktest(backtest: MockBacktest) {
+        let completed = backtest.pollsLeft === 0;
+
+        return {
+            backtestId: backtest.backtestId,
+            name: backtest.name,
+            note: backtest.note,
+            created: backtest.created,
+            completed: completed,
+            progress: completed ? 1 : 0.5,
+            result: completed ? {
+                Statistics: { 'Total Trades': '1', 'Net Profit': '1.5%' },
+                RuntimeStatistics: {},
+                Charts: {},
+                Orders: {},
+                ProfitLoss: {},
+                RollingWindow: {},
+                ClosedTrades: []
+            } : undefined
+        };
+    }
+
+    private createLive(project: MockProject, params: { [key: string]: any }) {
+        if (project.compiles.get(params.compileId) !== CompileState.BuildSuccess) {
+            throw new MockFailure([`Compile ${params.compileId} did not succeed`]);
+        }
+
+        let live: MockLive = {
+            projectId: project.projectId,
+            deployId: `L-${this.nextId++}`,
+            status: AlgorithmStatus.Running,
+            launched: new Date(),
+            brokerage: params['brokerage[id]'],
+            logs: ['2019-02-01 10:00:00 Trace:: Algorithm started']
+        };
+        this.live.push(live);
+        return live;
+    }
+
+    private getLive(projectId: number): MockLive {
+        let live = this.live.filter(existing => existing.projectId === projectId).pop();
+
+        if (!live) {
+            throw new MockFailure([`Project ${projectId} has no live algorithm`]);
+        }
+        return live;
+    }
+
+    /**
+     * A modification time after the given one, even if the clock hasn't moved on
+     */
+    private static later(date: Date): Date {
+        return new Date(Math.max(Date.now(), date.getTime() + 1));
+    }
+}
@@ -0,0 +1,26 @@
+import * as assert from 'assert';
+import { expandParameterGrid } from '../optimize';
+
+suite("Parameter Sweep Tests", function () {
+
+    test("Expands lists and ranges into every combination", function() {
+        let combinations = expandParameterGrid({ parameters: { fast: [10, 20], slow: { min: 50, max: 150, step: 50 } } });
+
+        assert.equal(combinations.length, 6);
+        assert.deepEqual(combinations[0], { fast: '10', slow: '50' });
+        assert.deepEqual(combinations[5], { fast: '20', slow: '150' });
+    });
+
+    test("Includes the end of ranges with fractional steps", function() {
+        let combinations = expandParameterGrid({ parameters: { threshold: { min: 0.1, max: 0.3, step: 0.1 } } });
+
+        assert.deepEqual(combinations.map(combination => combination.threshold), ['0.1', '0.2', '0.3']);
+    });
+
+    test("Rejects empty grids and invalid ranges", function() {
+        assert.throws(() => expandParameterGrid({ parameters: {} }));
+        assert.throws(() => expandParameterGrid({ parameters: { fast: [] } }));
+        assert.throws(() => expandParameterGrid({ parameters: { fast: { min: 10, max: 0, step: 1 } } }));
+        assert.throws(() => expandParameterGrid({ parameters: { fast: { min: 0, max: 10, step: 0 } } }));
+    });
+});
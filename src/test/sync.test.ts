@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { ProjectFile } from '../api';
+import { getSyncStatus, hashContent, SyncStatus } from '../sync';
+
+function cloudFile(content: string, modified: string): ProjectFile {
+    return { name: 'main.py', content: content, modified: new Date(modified), success: true, errors: [] };
+}
+
+suite("Sync Tests", function () {
+    let base = 'import clr';
+    let modified = '2019-02-01T10:00:00Z';
+    let state = { syncedHash: hashContent(base), cloudModified: String(new Date(modified)) };
+
+    test("Identical content is in sync", function() {
+        assert.equal(getSyncStatus({}, base, cloudFile(base, modified)), SyncStatus.InSync);
+        assert.equal(getSyncStatus(state, base, cloudFile(base, '2019-03-01T10:00:00Z')), SyncStatus.InSync);
+    });
+
+    test("Detects which side changed since the last sync", function() {
+        assert.equal(getSyncStatus(state, 'import os', cloudFile(base, modified)), SyncStatus.LocalChanged);
+        assert.equal(getSyncStatus(state, base, cloudFile('import os', '2019-03-01T10:00:00Z')), SyncStatus.CloudChanged);
+    });
+
+    test("Changes on both sides are a conflict", function() {
+        assert.equal(getSyncStatus(state, 'import os', cloudFile('import sys', '2019-03-01T10:00:00Z')), SyncStatus.Conflict);
+        assert.equal(getSyncStatus({}, 'import os', cloudFile('import sys', modified)), SyncStatus.Conflict);
+    });
+});
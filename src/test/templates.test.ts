@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { Language } from '../api';
+import { findAlgorithmClassName } from '../local';
+import { getTemplates, toClassName } from '../templates';
+
+suite("Template Tests", function () {
+
+    test("Derives class names from project names", function() {
+        assert.equal(toClassName('my first algo'), 'MyFirstAlgo');
+        assert.equal(toClassName('Momentum-Strategy.v2'), 'MomentumStrategyV2');
+        assert.equal(toClassName('2019 rebalance'), 'Algorithm2019Rebalance');
+        assert.equal(toClassName('---'), 'Algorithm');
+    });
+
+    test("Every template declares the algorithm class", function() {
+        for (let language of [Language.Python, Language.CSharp, Language.FSharp]) {
+            let templates = getTemplates(language);
+
+            assert.equal(templates.length, 5);
+            for (let template of templates) {
+                let files = template.createFiles('TemplateAlgorithm');
+
+                assert.ok(files.some(file => findAlgorithmClassName(file.content, language) === 'TemplateAlgorithm'), `${language} ${template.label}`);
+                assert.ok(files.every(file => file.content.indexOf('\r') === -1), `${language} ${template.label} has CRLF line endings`);
+            }
+            assert.equal(templates.filter(template => template.framework).length, 1);
+        }
+    });
+});
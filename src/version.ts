@@ -0,0 +1,2 @@
+/**Version of the extension, sent with every API request. Kept in a module without imports so that any module can load it */
+export const VERSION = '0.0.2';
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Projects } from './extension';
+import { isIgnoredFile, listProjectFiles, QCAlgorithmProject, QCProjectFile } from './project';
+import { hashContent } from './sync';
+
+/**
+ * How long to wait for more file events before acting on them.
+ * A rename shows up as a delete and a create, and we need both of them to tell it apart from an actual delete
+ */
+const SETTLE_DELAY_MS = 500;
+
+/**A file that was renamed locally */
+interface FileMove {
+    file: QCProjectFile;
+    newPath: string;
+}
+
+/**
+ * Watches the workspace for files created, deleted and renamed inside project directories
+ * and applies the same changes to the projects in the cloud.
+ *
+ * Files we write ourselves while syncing are added to `QCAlgorithmProject.files` before they hit the disk,
+ * so their events are ignored.
+ */
+export class ProjectFileWatcher {
+    /**Number of operations that asked for events to be ignored while they change the disk, see `suspend` */
+    private static suspensions = 0;
+
+    private createdPaths = new Set<string>();
+    private deletedPaths = new Set<string>();
+    private timer?: NodeJS.Timer;
+
+    private constructor() {}
+
+    public static register(context: vscode.ExtensionContext) {
+        let watcher = new ProjectFileWatcher();
+        let fileSystemWatcher = vscode.workspace.createFileSystemWatcher('**/*', false, true, false);
+
+        fileSystemWatcher.onDidCreate(uri => watcher.queue(watcher.createdPaths, uri));
+        fileSystemWatcher.onDidDelete(uri => watcher.queue(watcher.deletedPaths, uri));
+
+        context.subscriptions.push(fileSystemWatcher);
+        context.subscriptions.push(new vscode.Disposable(() => {
+            if (watcher.timer) {
+                clearTimeout(watcher.timer);
+            }
+        }));
+    }
+
+    /**
+     * Ignore file events until the returned disposable is disposed. Used by operations that change many files at once
+     * and bring the projects in line with the disk themselves, such as a git checkout
+     */
+    public static suspend(): vscode.Disposable {
+        ProjectFileWatcher.suspensions++;
+
+        return new vscode.Disposable(() => {
+            ProjectFileWatcher.suspensions--;
+        });
+    }
+
+    private queue(paths: Set<string>, uri: vscode.Uri) {
+        if (uri.scheme !== 'file' || ProjectFileWatcher.suspensions > 0) {
+            return;
+        }
+        paths.add(uri.fsPath);
+
+        if (this.timer) {
+            clearTimeout(this.timer);
+        }
+        this.timer = setTimeout(() => this.flush(), SETTLE_DELAY_MS);
+    }
+
+    private flush() {
+        let createdPaths = Array.from(this.createdPaths);
+        let deletedPaths = Array.from(this.deletedPaths);
+
+        this.createdPaths.clear();
+        this.deletedPaths.clear();
+        this.timer = undefined;
+
+        for (let project of Projects) {
+            this.applyChanges(project, createdPaths, deletedPaths).then(undefined, (err: Error) => {
+                console.log(err);
+                vscode.window.showErrorMessage(err.message);
+            });
+        }
+    }
+
+    /**
+     * Work out which of the events belong to the project and apply them to the cloud
+     */
+    private async applyChanges(project: QCAlgorithmProject, createdPaths: string[], deletedPaths: string[]) {
+        let created = ProjectFileWatcher.expandDirectories(createdPaths).filter(filePath => {
+            return QCAlgorithmProject.getProjectByPath(filePath) === project && !project.getFileByPath(filePath);
+        });
+        let deleted: QCProjectFile[] = [];
+
+        // A deleted directory only shows up as a single event, so it deletes every file we track under it
+        for (let deletedPath of deletedPaths) {
+            for (let file of project.files) {
+                let isUnder = file.filePath === deletedPath || file.filePath.startsWith(deletedPath + path.sep);
+
+                if (isUnder && !fs.existsSync(file.filePath) && deleted.indexOf(file) === -1) {
+                    deleted.push(file);
+                }
+            }
+        }
+
+        for (let move of ProjectFileWatcher.findMoves(created, deleted)) {
+            created.splice(created.indexOf(move.newPath), 1);
+            deleted.splice(deleted.indexOf(move.file), 1);
+
+            await project.moveLocalFile(move.file, move.newPath);
+        }
+
+        for (let filePath of created) {
+            await project.addLocalFile(filePath);
+            vscode.window.showInformationMessage(`${project.getFileName(filePath)} was created in ${project.projectName} in the cloud`);
+        }
+
+        for (let file of deleted) {
+            let fileName = project.getFileName(file.filePath);
+            let selection = await vscode.window.showWarningMessage(
+                `${fileName} was deleted locally. Delete it from ${project.projectName} in the cloud too?`,
+                'Delete from Cloud',
+                'Keep in Cloud'
+            );
+
+            await project.removeLocalFile(file, selection === 'Delete from Cloud');
+        }
+    }
+
+    /**
+     * Replace created directories with the files inside them, and drop ignored files and paths that no longer exist
+     */
+    private static expandDirectories(paths: string[]): string[] {
+        let files: string[] = [];
+
+        for (let filePath of paths) {
+            if (!fs.existsSync(filePath)) {
+                continue;
+            }
+
+            let stat = fs.lstatSync(filePath);
+            if (stat.isDirectory()) {
+                files.push(...listProjectFiles(filePath));
+            }
+            else if (stat.isFile() && !isIgnoredFile(path.basename(filePath))) {
+                files.push(filePath);
+            }
+        }
+        return files.filter((filePath, index) => files.indexOf(filePath) === index);
+    }
+
+    /**
+     * Pair deleted files with created files to detect renames. A created file only counts as a deleted file moved
+     * if it has the content we last read from the deleted file or the content it had at its last sync.
+     * Anything else is treated as a separate delete and create, so the cloud history of a file never moves to unrelated content
+     */
+    private static findMoves(created: string[], deleted: QCProjectFile[]): FileMove[] {
+        let moves: FileMove[] = [];
+        let remainingCreated = created.slice();
+
+        for (let file of deleted) {
+            let newPath = remainingCreated.find(filePath => {
+                let content = fs.readFileSync(filePath).toString();
+                return content === file.content || hashContent(content) === file.syncedHash;
+            });
+
+            if (newPath) {
+                moves.push({ file: file, newPath: newPath });
+                remainingCreated.splice(remainingCreated.indexOf(newPath), 1);
+            }
+        }
+        return moves;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import * as crypto from 'crypto';
+import { ChartPoint } from './api';
+
+/**A line to draw on a chart */
+export interface ChartLine {
+    name: string;
+    points: ChartPoint[];
+    color?: string;
+}
+
+/**Colors assigned to chart lines that don't specify their own */
+const LINE_COLORS = ['#3794ff', '#f14c4c', '#89d185', '#cca700', '#b180d7', '#4ec9b0', '#ce9178'];
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 260;
+const CHART_PADDING = 50;
+
+/**A value shown in a webview: text, a number or flag returned by the API, or a date */
+export type DisplayValue = string | number | boolean | Date | undefined;
+
+/**Statistics returned by the API, e.g. `Statistics` or `PortfolioStatistics`, keyed by name */
+export type StatisticsOf<T> = { [K in keyof T]: DisplayValue };
+
+/**
+ * Escape a value so that it can be embedded in HTML
+ */
+export function escapeHtml(value: DisplayValue): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format a value returned by the API for display. Numbers are rounded and dates are shortened
+ */
+export function formatValue(value: DisplayValue): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? value.toString() : value.toFixed(4);
+    }
+    if (value instanceof Date) {
+        return value.toISOString().replace('T', ' ').substring(0, 19);
+    }
+    return String(value);
+}
+
+/**
+ * Render a two column table from a key/value map
+ *
+ * @param title Table caption
+ * @param values Map of row label to value
+ */
+export function renderKeyValueTable<T extends StatisticsOf<T>>(title: string, values: T | undefined): string {
+    if (!values) {
+        return '';
+    }
+    let rows = Object.keys(values).map(key => `<tr><td>${escapeHtml(key)}</td><td>${escapeHtml(formatValue(values[<keyof T> key]))}</td></tr>`);
+
+    return `<table><caption>${escapeHtml(title)}</caption>${rows.join('')}</table>`;
+}
+
+/**
+ * Render a table with a header row
+ *
+ * @param headers Column names
+ * @param rows Cell contents. Cells are escaped unless `raw` is set
+ * @param raw Insert cell contents as HTML without escaping
+ */
+export function renderTable(headers: string[], rows: DisplayValue[][], raw: boolean = false): string {
+    let head = headers.map(header => `<th>${escapeHtml(header)}</th>`).join('');
+    let body = rows.map(row => `<tr>${row.map(cell => `<td>${raw ? cell : escapeHtml(formatValue(cell))}</td>`).join('')}</tr>`).join('');
+
+    return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+/**
+ * Render a map of statistics as a card with a grid of labelled values
+ */
+export function renderCard<T extends StatisticsOf<T>>(title: string, values: T | undefined): string {
+    if (!values) {
+        return '';
+    }
+    let cells = Object.keys(values).map(key => {
+        return `<div class="stat"><div class="label">${escapeHtml(key)}</div><div class="value">${escapeHtml(formatValue(values[<keyof T> key]))}</div></div>`;
+    });
+
+    return `<div class="card"><h3>${escapeHtml(title)}</h3><div class="grid">${cells.join('')}</div></div>`;
+}
+
+/**
+ * Render one or more lines on a shared time axis as an inline SVG chart
+ *
+ * @param title Chart title
+ * @param lines Lines to draw. Points must be sorted by time
+ */
+export function renderLineChart(title: string, lines: ChartLine[]): string {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    let pointCount = 0;
+
+    // Equity curves can hold many thousands of points, so avoid spreading them into `Math.min`
+    for (let line of lines) {
+        for (let point of line.points) {
+            minX = Math.min(minX, point.x);
+            maxX = Math.max(maxX, point.x);
+            minY = Math.min(minY, point.y);
+            maxY = Math.max(maxY, point.y);
+            pointCount++;
+        }
+    }
+
+    if (pointCount < 2) {
+        return `<div class="chart"><h3>${escapeHtml(title)}</h3><p>No data</p></div>`;
+    }
+
+    let spanX = maxX - minX || 1;
+    let spanY = maxY - minY || 1;
+
+    let scaleX = (x: number) => CHART_PADDING + (x - minX) / spanX * (CHART_WIDTH - 2 * CHART_PADDING);
+    let scaleY = (y: number) => CHART_HEIGHT - CHART_PADDING / 2 - (y - minY) / spanY * (CHART_HEIGHT - CHART_PADDING);
+
+    let polylines = lines.map((line, i) => {
+        let color = line.color || LINE_COLORS[i % LINE_COLORS.length];
+        let points = line.points.map(point => `${scaleX(point.x).toFixed(1)},${scaleY(point.y).toFixed(1)}`).join(' ');
+
+        return `<polyline fill="none" stroke="${escapeHtml(color)}" stroke-width="1.5" points="${points}"><title>${escapeHtml(line.name)}</title></polyline>`;
+    });
+    let legend = lines.map((line, i) => {
+        let color = line.color || LINE_COLORS[i % LINE_COLORS.length];
+        return `<span class="legend-item"><span class="swatch" style="background:${escapeHtml(color)}"></span>${escapeHtml(line.name)}</span>`;
+    });
+    let axis = [
+        `<text x="2" y="${scaleY(maxY) + 4}">${escapeHtml(formatValue(maxY))}</text>`,
+        `<text x="2" y="${scaleY(minY) + 4}">${escapeHtml(formatValue(minY))}</text>`,
+        `<text x="${CHART_PADDING}" y="${CHART_HEIGHT - 2}">${escapeHtml(formatValue(new Date(minX * 1000)).substring(0, 10))}</text>`,
+        `<text x="${CHART_WIDTH - CHART_PADDING - 60}" y="${CHART_HEIGHT - 2}">${escapeHtml(formatValue(new Date(maxX * 1000)).substring(0, 10))}</text>`
+    ];
+
+    return `<div class="chart"><h3>${escapeHtml(title)}</h3>`
+        + `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" preserveAspectRatio="none">${polylines.join('')}${axis.join('')}</svg>`
+        + `<div class="legend">${legend.join('')}</div></div>`;
+}
+
+/**
+ * Wrap a body in an HTML document styled with the editor's theme colors.
+ * The content security policy only allows the given inline script to run
+ *
+ * @param title Document title
+ * @param body HTML body
+ * @param script Optional script run at the end of the body. Webviews running scripts must enable `enableScripts`
+ */
+export function renderDocument(title: string, body: string, script?: string): string {
+    let nonce = crypto.randomBytes(16).toString('hex');
+    let scriptSource = script ? ` script-src 'nonce-${nonce}';` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';${scriptSource}">
+<title>${escapeHtml(title)}</title>
+<style>
+    body { color: var(--vscode-editor-foreground); font-family: var(--vscode-font-family); padding: 0 20px 20px; }
+    table { border-collapse: collapse; margin: 10px 20px 20px 0; display: inline-table; vertical-align: top; }
+    caption { text-align: left; font-weight: bold; padding: 4px 0; }
+    td, th { border: 1px solid var(--vscode-panel-border, #444); padding: 3px 8px; text-align: left; }
+    .card { border: 1px solid var(--vscode-panel-border, #444); padding: 8px 12px; margin: 10px 0; }
+    .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(200px, 1fr)); grid-gap: 6px; }
+    .label { opacity: 0.7; font-size: 0.85em; }
+    .value { font-weight: bold; }
+    .chart svg { width: 100%; height: 260px; }
+    .chart text { fill: var(--vscode-editor-foreground); font-size: 11px; }
+    .legend-item { margin-right: 16px; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+    .positive { color: var(--vscode-terminal-ansiGreen, #89d185); }
+    .negative { color: var(--vscode-terminal-ansiRed, #f14c4c); }
+    .error { color: var(--vscode-errorForeground, #f14c4c); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    input[type=text] { color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; width: 100%; box-sizing: border-box; }
+    .toolbar { margin: 10px 0; }
+    .toolbar > * { margin-right: 8px; }
+</style>
+</head>
+<body>
+<h2>${escapeHtml(title)}</h2>
+${body}
+${script ? `<script nonce="${nonce}">${script}</script>` : ''}
+</body>
+</html>`;
+}
\ No newline at end of file